@@ -1,5 +1,6 @@
 import React, { useRef, useCallback } from "react";
 import { Aggregator } from "@/lib/calculator"; // Import Aggregator type
+import { getAggregateTotals } from "@/lib/comparison";
 import {
   Table,
   TableBody,
@@ -22,6 +23,7 @@ import {
   TooltipTrigger,
   TooltipProvider,
 } from "@/components/ui/tooltip"; // Import all Tooltip components
+import UsageChange from "../ui/UsageChange";
 
 // Helper function to get color for a model based on its category
 const getModelColor = (modelSlug: string): string => {
@@ -50,6 +52,8 @@ const getModelColor = (modelSlug: string): string => {
 
 interface AggregatorSummaryTableProps {
   aggregator: Aggregator;
+  /** An aggregate to show the changes from */
+  comparison?: Aggregator | null;
 }
 
 /**
@@ -57,13 +61,21 @@ interface AggregatorSummaryTableProps {
  */
 export default function AggregatorSummaryTable({
   aggregator,
+  comparison,
 }: AggregatorSummaryTableProps) {
   const tableContainerRef = useRef<HTMLDivElement>(null); // Ref for the container
 
-  // Get all unique model slugs found during aggregation
-  const modelSlugs: string[] = aggregator.allModelSlugs
-    ? Array.from(aggregator.allModelSlugs).sort()
-    : [];
+  // Totals of the compared aggregate, if any
+  const baselineTotals = comparison ? getAggregateTotals(comparison) : null;
+
+  // Get all unique model slugs found during aggregation, and the models only
+  // the compared aggregate used
+  const modelSlugs: string[] = Array.from(
+    new Set([
+      ...Array.from(aggregator.allModelSlugs ?? []),
+      ...Object.keys(baselineTotals?.models ?? {}),
+    ])
+  ).sort();
 
   // Calculate overall totals (can also use aggregator.totalCostAllModels)
   let grandTotalCost = 0;
@@ -103,7 +115,13 @@ export default function AggregatorSummaryTable({
       });
 
       // Don't include if this model had no usage
-      if (totalMessages === 0 && totalConversations === 0) return null;
+      if (
+        totalMessages === 0 &&
+        totalConversations === 0 &&
+        !baselineTotals?.models[model]
+      ) {
+        return null;
+      }
 
       return {
         model,
@@ -130,6 +148,22 @@ export default function AggregatorSummaryTable({
   // Get sorted categories for display order
   const sortedCategories = Object.keys(modelsByCategory).sort();
 
+  // The change of a value from the compared aggregate, under the value
+  const renderChange = (
+    current: number,
+    baseline: number | undefined,
+    format?: (value: number) => string
+  ) =>
+    baselineTotals && (
+      <UsageChange
+        current={current}
+        baseline={baseline ?? 0}
+        format={format}
+        className="block"
+      />
+    );
+  const formatCost = (value: number) => `$${value.toFixed(2)}`;
+
   // Handle PNG Export
   const handleExport = useCallback(() => {
     if (tableContainerRef.current === null) {
@@ -259,18 +293,39 @@ export default function AggregatorSummaryTable({
                     </TableCell>
                     <TableCell className="text-right !text-xs font-mono">
                       {totals.totalInput.toLocaleString()}
+                      {renderChange(
+                        totals.totalInput,
+                        baselineTotals?.models[totals.model]?.input_tokens
+                      )}
                     </TableCell>
                     <TableCell className="text-right !text-xs font-mono">
                       {totals.totalOutput.toLocaleString()}
+                      {renderChange(
+                        totals.totalOutput,
+                        baselineTotals?.models[totals.model]?.output_tokens
+                      )}
                     </TableCell>
                     <TableCell className="text-right !text-xs font-mono">
                       {totals.totalMessages.toLocaleString()}
+                      {renderChange(
+                        totals.totalMessages,
+                        baselineTotals?.models[totals.model]?.message_count
+                      )}
                     </TableCell>
                     <TableCell className="text-right !text-xs font-mono">
                       {totals.totalConversations.toLocaleString()}
+                      {renderChange(
+                        totals.totalConversations,
+                        baselineTotals?.models[totals.model]?.conversation_count
+                      )}
                     </TableCell>
                     <TableCell className="text-right !text-xs font-mono">
                       ${totals.totalCost.toFixed(2)}
+                      {renderChange(
+                        totals.totalCost,
+                        baselineTotals?.models[totals.model]?.cost,
+                        formatCost
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -284,18 +339,39 @@ export default function AggregatorSummaryTable({
               </TableCell>
               <TableCell className="text-right !text-sm font-mono">
                 {grandTotalInput.toLocaleString()}
+                {renderChange(
+                  grandTotalInput,
+                  baselineTotals?.total.input_tokens
+                )}
               </TableCell>
               <TableCell className="text-right !text-sm font-mono">
                 {grandTotalOutput.toLocaleString()}
+                {renderChange(
+                  grandTotalOutput,
+                  baselineTotals?.total.output_tokens
+                )}
               </TableCell>
               <TableCell className="text-right !text-sm font-mono">
                 {grandTotalMessages.toLocaleString()}
+                {renderChange(
+                  grandTotalMessages,
+                  baselineTotals?.total.message_count
+                )}
               </TableCell>
               <TableCell className="text-right !text-sm font-mono">
                 {grandTotalConversations.toLocaleString()}
+                {renderChange(
+                  grandTotalConversations,
+                  baselineTotals?.total.conversation_count
+                )}
               </TableCell>
               <TableCell className="text-right !text-sm font-mono">
                 ${(aggregator.totalCostAllModels ?? grandTotalCost).toFixed(2)}
+                {renderChange(
+                  aggregator.totalCostAllModels ?? grandTotalCost,
+                  baselineTotals?.total.cost,
+                  formatCost
+                )}
               </TableCell>
             </TableRow>
           </TableBody>
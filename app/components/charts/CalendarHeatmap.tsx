@@ -7,6 +7,7 @@ import {
   CalendarTooltipProps,
 } from "@nivo/calendar";
 import { Aggregator } from "@/lib/calculator";
+import { parseDayKey } from "@/lib/timezone";
 import { MultiSelect, MultiSelectOption } from "@/components/ui/multi-select"; // Corrected import path
 import { getModelCategory, prettifyModelName } from "@/lib/model-utils";
 import * as htmlToImage from "html-to-image"; // Import html-to-image
@@ -253,8 +254,7 @@ export default function CalendarHeatmap({ aggregator }: CalendarHeatmapProps) {
   if (!latestDateStr) {
     return <div>Could not determine date range.</div>;
   }
-  const latestDate = new Date(latestDateStr);
-  const endYear = latestDate.getFullYear();
+  const endYear = parseDayKey(latestDateStr).getUTCFullYear();
   const startYear = endYear - 2; // Go back 2 years for a 3-year total span
 
   const fromDate = `${startYear}-01-01`; // Start of the calculated start year
@@ -262,10 +262,7 @@ export default function CalendarHeatmap({ aggregator }: CalendarHeatmapProps) {
 
   // Filter the raw data to only include days within our fixed 3-year range
   const filteredUsageByDay = Object.entries(aggregator.usageByDay)
-    .filter(([dayKey]) => {
-      const dayDate = new Date(dayKey);
-      return dayDate >= new Date(fromDate) && dayDate <= new Date(toDate);
-    })
+    .filter(([dayKey]) => dayKey >= fromDate && dayKey <= toDate)
     .reduce((acc, [key, value]) => {
       acc[key] = value;
       return acc;
@@ -9,6 +9,7 @@ import {
 } from "@nivo/line";
 import { area, curveMonotoneX, curveBasis } from "d3-shape";
 import { Aggregator } from "@/lib/calculator";
+import { getDayKeyWeekday } from "@/lib/timezone";
 import { MultiSelect, MultiSelectOption } from "@/components/ui/multi-select";
 import { getModelCategory, prettifyModelName } from "@/lib/model-utils";
 import * as htmlToImage from "html-to-image";
@@ -48,13 +49,6 @@ const DAY_NAMES = [
 ];
 const DAY_ABBR = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
 
-// Helper: get day of week (0=Sun, 6=Sat) from YYYY-MM-DD
-function getDayOfWeek(dayKey: string): number {
-  const [year, month, day] = dayKey.split("-").map(Number);
-  const date = new Date(year, month - 1, day);
-  return date.getDay();
-}
-
 // Helper function to generate controlled random value
 function jitter(baseValue: number, range: number): number {
   return baseValue + (Math.random() * 2 - 1) * range;
@@ -84,7 +78,7 @@ function calculateWeeklyHourlyAverages(
   let totalEntries = 0;
 
   Object.entries(aggregator.usageByDay).forEach(([dayKey, dayBucket]) => {
-    const dayOfWeek = getDayOfWeek(dayKey);
+    const dayOfWeek = getDayKeyWeekday(dayKey);
 
     // If models are selected, combine only those
     if (selectedModels.length > 0) {
@@ -1,8 +1,9 @@
 "use client";
 
 import React, { useState, useMemo, useRef, useCallback } from "react";
-import { ResponsiveBar } from "@nivo/bar";
+import { BarCustomLayerProps, ResponsiveBar } from "@nivo/bar";
 import { Aggregator } from "@/lib/calculator";
+import { getIsoWeekKey, getMonthKey } from "@/lib/timezone";
 import { MultiSelect, MultiSelectOption } from "@/components/ui/multi-select";
 import {
   getModelCategory,
@@ -10,6 +11,7 @@ import {
   MODEL_CATEGORY_COLORS,
 } from "@/lib/model-utils";
 import { format as d3Format } from "d3-format";
+import { ScaleBand } from "d3-scale";
 import * as htmlToImage from "html-to-image";
 import { Button } from "@/components/ui/button";
 import { Download, ChevronsUpDown } from "lucide-react";
@@ -28,6 +30,10 @@ type AggregationType = "week" | "month";
 // Define the props for the component
 interface ModelUsageBarChartProps {
   aggregator: Aggregator;
+  /** An aggregate to mark the totals of over the bars, lined up by day */
+  comparison?: Aggregator | null;
+  /** What the compared aggregate is, for the legend */
+  comparisonLabel?: string;
 }
 
 // Define the structure of the data points Nivo Bar expects
@@ -38,25 +44,9 @@ type BarDataPoint = {
 };
 type BarData = BarDataPoint[];
 
-// Helper function to get ISO week number and year (e.g., 2023-W42)
-const getWeekKey = (dateString: string): string => {
-  const date = new Date(dateString + "T00:00:00");
-  // Adjust to local timezone when calculating ISO week number
-  date.setDate(date.getDate() + 4 - (date.getDay() || 7)); // Adjust to Thursday of the week
-  const yearStart = new Date(date.getFullYear(), 0, 1);
-  // Calculate full weeks to Thursday
-  const weekNo = Math.ceil(
-    ((date.getTime() - yearStart.getTime()) / 86400000 + 1) / 7
-  );
-  // Return YYYY-Www format
-  return `${date.getFullYear()}-W${String(weekNo).padStart(2, "0")}`;
-};
-
-// Helper function to get month key from date string (e.g., 2023-05)
-const getMonthKey = (dateString: string): string => {
-  const date = new Date(dateString + "T00:00:00");
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
-};
+// Whether a chart scale is a band scale, like the bars' index scale
+const isBandScale = (scale: unknown): scale is ScaleBand<string> =>
+  typeof scale === "function" && "bandwidth" in scale;
 
 // Format week key as Quarter + Year
 const getQuarterFromWeekKey = (weekKey: string): string => {
@@ -71,14 +61,14 @@ const getQuarterFromWeekKey = (weekKey: string): string => {
     const weekNum = parseInt(match[2], 10);
 
     // Create a date for Jan 1 of the year
-    const firstDayOfYear = new Date(year, 0, 1);
+    const firstDayOfYear = new Date(Date.UTC(year, 0, 1));
 
     // Add the week offset (weeks start from 1)
     const targetDate = new Date(firstDayOfYear);
-    targetDate.setDate(firstDayOfYear.getDate() + (weekNum - 1) * 7);
+    targetDate.setUTCDate(firstDayOfYear.getUTCDate() + (weekNum - 1) * 7);
 
     // Get the quarter (0-3)
-    const quarter = Math.floor(targetDate.getMonth() / 3);
+    const quarter = Math.floor(targetDate.getUTCMonth() / 3);
 
     // Map quarter to first month of that quarter
     const quarterMonths = ["Jan", "Apr", "Jul", "Oct"];
@@ -149,19 +139,42 @@ const getMonthlyTickValues = (data: BarData): string[] => {
   return data.map((itemData) => itemData.timeKey);
 };
 
+// Helper function to total the selected models of an aggregate per week or month
+const getTotalsByTimeKey = (
+  aggregator: Aggregator,
+  metric: Metric,
+  selectedModels: string[],
+  aggregationType: AggregationType
+): Record<string, number> => {
+  const totals: Record<string, number> = {};
+
+  Object.entries(aggregator.usageByDay).forEach(([dayKey, dayBucket]) => {
+    const timeKey =
+      aggregationType === "week" ? getIsoWeekKey(dayKey) : getMonthKey(dayKey);
+
+    Object.entries(dayBucket.models).forEach(([slug, modelData]) => {
+      if (selectedModels.length > 0 && !selectedModels.includes(slug)) return;
+      totals[timeKey] = (totals[timeKey] || 0) + (modelData[metric] || 0);
+    });
+  });
+
+  return totals;
+};
+
 // Helper function to transform aggregator data into Nivo Bar format (Weekly or Monthly)
 const transformDataForBarChart = (
   aggregator: Aggregator,
   metric: Metric,
   selectedModels: string[],
-  aggregationType: AggregationType
+  aggregationType: AggregationType,
+  comparisonTotals?: Record<string, number> | null
 ): BarData => {
   const timeAgg: Record<string, { [modelSlug: string]: number }> = {}; // { 'YYYY-Www' or 'YYYY-MM': { modelSlug: value } }
 
   // Aggregate daily data into time totals per selected model
   Object.entries(aggregator.usageByDay).forEach(([dayKey, dayBucket]) => {
     const timeKey =
-      aggregationType === "week" ? getWeekKey(dayKey) : getMonthKey(dayKey);
+      aggregationType === "week" ? getIsoWeekKey(dayKey) : getMonthKey(dayKey);
 
     if (!timeAgg[timeKey]) {
       timeAgg[timeKey] = {};
@@ -185,6 +198,13 @@ const transformDataForBarChart = (
     });
   });
 
+  // Periods the compared aggregate has usage in are part of the timeline too
+  Object.keys(comparisonTotals ?? {}).forEach((timeKey) => {
+    if (!timeAgg[timeKey]) {
+      timeAgg[timeKey] = {};
+    }
+  });
+
   // Convert aggregated data into the array format Nivo expects
   const sortedTimeKeys = Object.keys(timeAgg).sort();
   const barData: BarData = sortedTimeKeys.map((timeKey) => {
@@ -319,6 +339,8 @@ const getModelColor = (modelSlug: string): string => {
 
 export default function ModelUsageBarChart({
   aggregator,
+  comparison,
+  comparisonLabel,
 }: ModelUsageBarChartProps) {
   const [selectedMetric, setSelectedMetric] =
     useState<Metric>("conversation_count");
@@ -354,6 +376,20 @@ export default function ModelUsageBarChart({
     setSelectedModels([]); // Clear selection on new data = select all models
   }, [aggregator]);
 
+  // Totals of the compared aggregate per period, if comparing
+  const comparisonTotals = useMemo(
+    () =>
+      comparison
+        ? getTotalsByTimeKey(
+            comparison,
+            selectedMetric,
+            selectedModels,
+            aggregationType
+          )
+        : null,
+    [comparison, selectedMetric, selectedModels, aggregationType]
+  );
+
   // Memoize the transformed data based on selected metric, models, and aggregation type
   const barData = useMemo(
     () =>
@@ -361,11 +397,32 @@ export default function ModelUsageBarChart({
         aggregator,
         selectedMetric,
         selectedModels,
-        aggregationType
+        aggregationType,
+        comparisonTotals
       ),
-    [aggregator, selectedMetric, selectedModels, aggregationType]
+    [
+      aggregator,
+      selectedMetric,
+      selectedModels,
+      aggregationType,
+      comparisonTotals,
+    ]
   );
 
+  // Make room for comparison totals that are higher than the bars
+  const maxValue = useMemo(() => {
+    if (!comparisonTotals) return "auto" as const;
+    let max = 0;
+    barData.forEach((dataPoint) => {
+      let total = 0;
+      Object.entries(dataPoint).forEach(([key, value]) => {
+        if (key !== "timeKey") total += value as number;
+      });
+      max = Math.max(max, total, comparisonTotals[dataPoint.timeKey] || 0);
+    });
+    return max;
+  }, [barData, comparisonTotals]);
+
   // Custom color function to assign colors based on model category
   const getModelColors = () => {
     const colorMap: Record<string, string> = {};
@@ -545,9 +602,46 @@ export default function ModelUsageBarChart({
           ))}
         </div>
       ))}
+
+      {/* The compared aggregate's totals */}
+      {comparisonTotals && (
+        <div className="px-1 py-1">
+          <div className="px-1 text-5xs text-violet-400 font-normal uppercase font-mono tracking-wider">
+            compared with
+          </div>
+          <div className="flex items-center pl-1 text-violet-200 font-sans">
+            <div className="w-2 h-0 mr-1 flex-shrink-0 border-t border-dashed border-white" />
+            <span className="truncate pr-1 text-3xs">
+              {comparisonLabel || "comparison"}
+            </span>
+          </div>
+        </div>
+      )}
     </div>
   );
 
+  // Dashed line across each period at the compared aggregate's total
+  const ComparisonMarkers = ({
+    xScale,
+    yScale,
+  }: BarCustomLayerProps<BarDataPoint>) => {
+    // The index scale is a band scale, keyed by period
+    if (!comparisonTotals || !isBandScale(xScale)) return null;
+    const bandwidth = xScale.bandwidth();
+
+    return (
+      <g stroke="#ffffff" strokeWidth={1.5} strokeDasharray="4 3">
+        {barData.map(({ timeKey }) => {
+          const total = comparisonTotals[timeKey];
+          const x = xScale(timeKey);
+          if (!total || x === undefined) return null;
+          const y = yScale(total) as number;
+          return <line key={timeKey} x1={x} x2={x + bandwidth} y1={y} y2={y} />;
+        })}
+      </g>
+    );
+  };
+
   return (
     <div className="relative">
       {/* Controls Container */}
@@ -639,6 +733,7 @@ export default function ModelUsageBarChart({
               margin={{ top: 20, right: 115, bottom: 50, left: 40 }}
               padding={0.1}
               valueScale={{ type: "linear" }}
+              maxValue={maxValue}
               indexScale={{ type: "band", round: true }}
               colors={({ id }) => getModelColor(id as string)}
               borderColor={{ from: "color", modifiers: [["darker", 1.6]] }}
@@ -703,6 +798,16 @@ export default function ModelUsageBarChart({
                       </span>{" "}
                       {formatLabel(value)}
                     </p>
+                    {comparisonTotals && (
+                      <p className="text-2xs font-sans text-white">
+                        <span className="text-violet-300/70">
+                          {comparisonLabel || "Comparison"} total:
+                        </span>{" "}
+                        {formatLabel(
+                          comparisonTotals[indexValue as string] || 0
+                        )}
+                      </p>
+                    )}
                     <p className="text-2xs font-sans text-white">
                       <span className="text-violet-300/70">
                         {aggregationType === "week" ? "Week" : "Month"}:
@@ -723,6 +828,15 @@ export default function ModelUsageBarChart({
               motionConfig="gentle"
               role="application"
               ariaLabel={`Nivo bar chart showing model usage over time (${aggregationType}ly)`}
+              layers={[
+                "grid",
+                "axes",
+                "bars",
+                "markers",
+                "legends",
+                "annotations",
+                ComparisonMarkers,
+              ]}
             />
             <div className="custom-legend-container">
               <CustomLegend />
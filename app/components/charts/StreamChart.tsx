@@ -1,8 +1,10 @@
 "use client";
 
 import React, { useState, useMemo, useRef, useCallback } from "react";
-import { ResponsiveStream } from "@nivo/stream";
+import { ResponsiveStream, StreamCustomLayerProps } from "@nivo/stream";
+import { line, curveBasis } from "d3-shape";
 import { Aggregator } from "@/lib/calculator";
+import { parseDayKey } from "@/lib/timezone";
 import { MultiSelect, MultiSelectOption } from "@/components/ui/multi-select";
 import {
   getModelCategory,
@@ -47,8 +49,19 @@ type Metric =
 
 interface StreamChartProps {
   aggregator: Aggregator;
+  /** An aggregate to outline over the stream, lined up by day */
+  comparison?: Aggregator | null;
+  /** What the compared aggregate is, for the legend */
+  comparisonLabel?: string;
 }
 
+// Invisible layers below and above the models that make room for the
+// comparison outline where it is wider than the stream
+const COMPARISON_PADDING_KEYS = [
+  "comparison-padding-below",
+  "comparison-padding-above",
+];
+
 // Nivo Stream expects data points where keys are layers (models)
 // and values are numbers. We'll keep month keys separate.
 type StreamDataPoint = { [modelSlug: string]: number };
@@ -59,13 +72,36 @@ interface TransformedStreamData {
   data: StreamData;
   monthKeys: string[];
   activeModelSlugs: string[]; // Keep track of models actually in the data for keys prop
+  // Smoothed total of the compared aggregate for each day, if comparing
+  comparisonTotals?: number[];
 }
 
+// Apply a 5-day moving average to a time series
+const smoothSeries = (rawValues: number[]): number[] => {
+  const smoothWindow = 5;
+  return rawValues.map((_, index) => {
+    // Calculate window bounds
+    const windowStart = Math.max(0, index - Math.floor(smoothWindow / 2));
+    const windowEnd = Math.min(
+      rawValues.length - 1,
+      index + Math.floor(smoothWindow / 2)
+    );
+    // Calculate sum of values in window
+    let sum = 0;
+    for (let i = windowStart; i <= windowEnd; i++) {
+      sum += rawValues[i];
+    }
+    // Return average
+    return sum / (windowEnd - windowStart + 1);
+  });
+};
+
 // Helper to transform data for Nivo Stream
 const transformDataForStream = (
   aggregator: Aggregator,
   metric: Metric,
-  selectedModels: string[] // Use selected models
+  selectedModels: string[], // Use selected models
+  comparison?: Aggregator | null
 ): TransformedStreamData => {
   const dailyAgg: Record<string, { [modelSlug: string]: number }> = {}; // { dayKey: { modelSlug: value } }
   const allAvailableModels = aggregator.allModelSlugs
@@ -98,6 +134,13 @@ const transformDataForStream = (
     });
   });
 
+  // Days the compared aggregate has usage on are part of the timeline too
+  Object.keys(comparison?.usageByDay ?? {}).forEach((dayKey) => {
+    if (!dailyAgg[dayKey]) {
+      dailyAgg[dayKey] = {};
+    }
+  });
+
   // Convert aggregated data into the format Nivo expects
   const sortedDayKeys = Object.keys(dailyAgg).sort();
   const activeModelSlugs = Array.from(activeModelSlugsSet).sort(); // Convert set to sorted array
@@ -112,27 +155,10 @@ const transformDataForStream = (
   });
 
   // Apply a 5-day moving average to each model's time series
-  const smoothWindow = 5;
   const smoothedModelData: Record<string, number[]> = {};
 
   activeModelSlugs.forEach((slug) => {
-    const rawValues = modelTimeSeries[slug];
-    const smoothedValues = rawValues.map((_, index) => {
-      // Calculate window bounds
-      const windowStart = Math.max(0, index - Math.floor(smoothWindow / 2));
-      const windowEnd = Math.min(
-        rawValues.length - 1,
-        index + Math.floor(smoothWindow / 2)
-      );
-      // Calculate sum of values in window
-      let sum = 0;
-      for (let i = windowStart; i <= windowEnd; i++) {
-        sum += rawValues[i];
-      }
-      // Return average
-      return sum / (windowEnd - windowStart + 1);
-    });
-    smoothedModelData[slug] = smoothedValues;
+    smoothedModelData[slug] = smoothSeries(modelTimeSeries[slug]);
   });
 
   // Convert smoothed data back to Nivo format
@@ -145,10 +171,50 @@ const transformDataForStream = (
     return dayDataPoint;
   });
 
-  return { data: streamData, monthKeys: sortedDayKeys, activeModelSlugs };
+  if (!comparison) {
+    return { data: streamData, monthKeys: sortedDayKeys, activeModelSlugs };
+  }
+
+  // Total of the same models in the compared aggregate, smoothed alike
+  const comparisonTotals = smoothSeries(
+    sortedDayKeys.map((dayKey) => {
+      const dayBucket = comparison.usageByDay[dayKey];
+      if (!dayBucket) return 0;
+      return Object.entries(dayBucket.models)
+        .filter(
+          ([slug]) =>
+            selectedModels.length === 0 || selectedModels.includes(slug)
+        )
+        .reduce((sum, [, modelData]) => sum + (modelData[metric] || 0), 0);
+    })
+  );
+
+  // Split whatever the comparison is wider by between both padding layers,
+  // which keeps the models centred
+  streamData.forEach((dayDataPoint, dayIndex) => {
+    const total = activeModelSlugs.reduce(
+      (sum, slug) => sum + dayDataPoint[slug],
+      0
+    );
+    const padding = Math.max(0, comparisonTotals[dayIndex] - total) / 2;
+    COMPARISON_PADDING_KEYS.forEach((key) => {
+      dayDataPoint[key] = padding;
+    });
+  });
+
+  return {
+    data: streamData,
+    monthKeys: sortedDayKeys,
+    activeModelSlugs,
+    comparisonTotals,
+  };
 };
 
-export default function StreamChart({ aggregator }: StreamChartProps) {
+export default function StreamChart({
+  aggregator,
+  comparison,
+  comparisonLabel,
+}: StreamChartProps) {
   const [selectedMetric, setSelectedMetric] =
     useState<Metric>("conversation_count");
   const [selectedModels, setSelectedModels] = useState<string[]>([]); // State for selected models
@@ -177,11 +243,33 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
     data: streamData,
     monthKeys,
     activeModelSlugs,
+    comparisonTotals,
   } = useMemo(
-    () => transformDataForStream(aggregator, selectedMetric, selectedModels),
-    [aggregator, selectedMetric, selectedModels]
+    () =>
+      transformDataForStream(
+        aggregator,
+        selectedMetric,
+        selectedModels,
+        comparison
+      ),
+    [aggregator, selectedMetric, selectedModels, comparison]
   );
 
+  // Layer keys; when comparing, the models are ordered smallest first (as
+  // order="ascending" would) between the padding layers
+  const streamKeys = useMemo(() => {
+    if (!comparisonTotals) return activeModelSlugs;
+    const sums: Record<string, number> = {};
+    activeModelSlugs.forEach((slug) => {
+      sums[slug] = streamData.reduce((sum, point) => sum + point[slug], 0);
+    });
+    return [
+      COMPARISON_PADDING_KEYS[0],
+      ...activeModelSlugs.slice().sort((a, b) => sums[a] - sums[b]),
+      COMPARISON_PADDING_KEYS[1],
+    ];
+  }, [activeModelSlugs, streamData, comparisonTotals]);
+
   // Group models by their categories for the custom legend
   const modelsByCategory = useMemo(() => {
     const groupedModels: Record<string, string[]> = {};
@@ -231,9 +319,42 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
           ))}
         </div>
       ))}
+
+      {/* The compared aggregate's outline */}
+      {comparisonTotals && (
+        <div className="px-1 py-1">
+          <div className="px-1 text-5xs text-violet-400 font-normal uppercase font-mono tracking-wider">
+            compared with
+          </div>
+          <div className="flex items-center pl-1 text-violet-200 font-sans">
+            <div className="w-2 h-0 mr-1 flex-shrink-0 border-t border-dashed border-white" />
+            <span className="truncate pr-1 text-3xs">
+              {comparisonLabel || "comparison"}
+            </span>
+          </div>
+        </div>
+      )}
     </div>
   );
 
+  // Dashed outline of the compared aggregate: the stream is centred on zero,
+  // so a total spans from -total/2 to +total/2
+  const ComparisonOutline = ({ xScale, yScale }: StreamCustomLayerProps) => {
+    if (!comparisonTotals) return null;
+    const outline = (side: 1 | -1) =>
+      line<number>()
+        .x((_, index) => xScale(index) ?? 0)
+        .y((total) => yScale((side * total) / 2) ?? 0)
+        .curve(curveBasis)(comparisonTotals) ?? undefined;
+
+    return (
+      <g fill="none" stroke="#ffffff" strokeWidth={1} strokeDasharray="4 3">
+        <path d={outline(1)} />
+        <path d={outline(-1)} />
+      </g>
+    );
+  };
+
   // Handle PNG Export
   const handleExport = useCallback(() => {
     if (chartContainerRef.current === null) {
@@ -415,7 +536,7 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
           <>
             <ResponsiveStream
               data={streamData}
-              keys={activeModelSlugs}
+              keys={streamKeys}
               margin={{ top: 20, right: 115, bottom: 50, left: 40 }}
               axisTop={null}
               axisRight={null}
@@ -432,7 +553,7 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
 
                   // Format to show month and year (like Jan 2023)
                   try {
-                    const date = new Date(dayKey);
+                    const date = parseDayKey(dayKey);
                     const monthNames = [
                       "Jan",
                       "Feb",
@@ -448,8 +569,8 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
                       "Dec",
                     ];
                     return `${
-                      monthNames[date.getMonth()]
-                    } ${date.getFullYear()}`;
+                      monthNames[date.getUTCMonth()]
+                    } ${date.getUTCFullYear()}`;
                   } catch {
                     return dayKey;
                   }
@@ -466,10 +587,12 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
                     // Skip the first point (i=0) and start from i=1
                     for (let i = 1; i < monthKeys.length - 1; i++) {
                       try {
-                        const currentDate = new Date(monthKeys[i]);
-                        const prevDate = new Date(monthKeys[i - 1]);
-                        const currentMonth = currentDate.getMonth();
-                        const prevMonth = prevDate.getMonth();
+                        const currentMonth = parseDayKey(
+                          monthKeys[i]
+                        ).getUTCMonth();
+                        const prevMonth = parseDayKey(
+                          monthKeys[i - 1]
+                        ).getUTCMonth();
 
                         // If we're entering a new quarter month
                         if (
@@ -522,8 +645,12 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
               enableGridX={false}
               enableGridY={true}
               offsetType="silhouette"
-              order="ascending"
-              colors={({ id }) => getModelColor(id as string)}
+              order={comparisonTotals ? "none" : "ascending"}
+              colors={({ id }) =>
+                COMPARISON_PADDING_KEYS.includes(id as string)
+                  ? "transparent"
+                  : getModelColor(id as string)
+              }
               fillOpacity={0.95}
               borderWidth={0}
               curve="basis"
@@ -531,6 +658,15 @@ export default function StreamChart({ aggregator }: StreamChartProps) {
               motionConfig="gentle"
               theme={theme}
               isInteractive={false}
+              layers={[
+                "grid",
+                "axes",
+                "layers",
+                "dots",
+                "slices",
+                "legends",
+                ComparisonOutline,
+              ]}
             />
             <div className="custom-legend-container">
               <CustomLegend />
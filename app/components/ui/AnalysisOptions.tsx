@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { Clock, GitBranch } from "lucide-react";
+import { BranchMode } from "@/lib/calculator";
+import { getLocalTimeZone, getSupportedTimeZones } from "@/lib/timezone";
+
+type AnalysisOptionsProps = {
+  branchMode: BranchMode;
+  onBranchModeChange: (mode: BranchMode) => void;
+  /** IANA timezone, or undefined for the browser's own */
+  timeZone?: string;
+  onTimeZoneChange: (timeZone: string | undefined) => void;
+  disabled?: boolean;
+};
+
+const BRANCH_MODES: { mode: BranchMode; label: string; hint: string }[] = [
+  {
+    mode: "active",
+    label: "active path",
+    hint: "Only the version of each conversation you kept (its current node)",
+  },
+  {
+    mode: "all",
+    label: "all branches",
+    hint: "Every regenerated response and edited prompt, each with its own context",
+  },
+];
+
+export default function AnalysisOptions({
+  branchMode,
+  onBranchModeChange,
+  timeZone,
+  onTimeZoneChange,
+  disabled,
+}: AnalysisOptionsProps) {
+  // Resolved after mounting, as the server doesn't know the browser's zone
+  const [localTimeZone, setLocalTimeZone] = useState("");
+  const [timeZones, setTimeZones] = useState<string[]>([]);
+  useEffect(() => {
+    setLocalTimeZone(getLocalTimeZone());
+    setTimeZones(getSupportedTimeZones());
+  }, []);
+
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-2 pl-2 mb-4 text-2xs !font-mono text-[#B08AFF]/70">
+      <GitBranch className="w-3 h-3 text-violet-300/40" />
+      <span>branches</span>
+      <div className="flex flex-row rounded-xs border border-violet-800/40 overflow-hidden">
+        {BRANCH_MODES.map(({ mode, label, hint }) => (
+          <button
+            key={mode}
+            type="button"
+            title={hint}
+            disabled={disabled}
+            onClick={() => mode !== branchMode && onBranchModeChange(mode)}
+            className={`px-2 py-0.5 transition-colors disabled:opacity-50 ${
+              mode === branchMode
+                ? "bg-violet-800/60 text-[#E6DBFF]"
+                : "hover:bg-violet-900/40"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <Clock className="w-3 h-3 ml-3 text-violet-300/40" />
+      <span>timezone</span>
+      <select
+        value={timeZone ?? ""}
+        onChange={(e) => onTimeZoneChange(e.target.value || undefined)}
+        disabled={disabled}
+        title="Timezone used for day and hour boundaries in every chart"
+        className="bg-black/40 border border-violet-800/40 rounded-xs px-1 py-0.5 text-[#E6DBFF] max-w-[200px] disabled:opacity-50"
+      >
+        <option value="">
+          local{localTimeZone ? ` (${localTimeZone})` : ""}
+        </option>
+        {timeZone && !timeZones.includes(timeZone) && (
+          <option value={timeZone}>{timeZone}</option>
+        )}
+        {timeZones.map((zone) => (
+          <option key={zone} value={zone}>
+            {zone}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import React, { useRef, useState } from "react";
+import { FolderOpen, GitCompare, X } from "lucide-react";
+import { Comparison, DayRange } from "@/lib/comparison";
+import { addDaysToDayKey } from "@/lib/timezone";
+
+type ComparisonControlsProps = {
+  /** First day of the results, to suggest ranges from */
+  startDate?: string;
+  /** Last day of the results, to suggest ranges from */
+  endDate?: string;
+  /** What is being compared, if anything */
+  comparison: Comparison | null;
+  /** Compare two date ranges of the results; throws if they can't be */
+  onCompareRanges: (current: DayRange, baseline: DayRange) => void;
+  /** Compare the results with a saved analysis */
+  onCompareAnalysis: (file: File) => Promise<void>;
+  onStop: () => void;
+  disabled?: boolean;
+};
+
+/** Length of the suggested ranges, about a quarter */
+const SUGGESTED_RANGE_DAYS = 90;
+
+const INPUT_CLASS_NAME =
+  "bg-black/40 border border-violet-800/40 rounded-xs px-1 py-0.5 text-[#E6DBFF] disabled:opacity-50 [color-scheme:dark]";
+const BUTTON_CLASS_NAME =
+  "px-2 py-0.5 rounded-xs border border-violet-800/40 flex flex-row items-center hover:bg-violet-900/40 transition-colors disabled:opacity-50";
+
+/**
+ * Suggest the last quarter of the results, compared with the quarter before.
+ */
+function suggestRanges(
+  startDate?: string,
+  endDate?: string
+): { current: DayRange; baseline: DayRange } {
+  const to = endDate ?? new Date().toISOString().slice(0, 10);
+  let from = addDaysToDayKey(to, 1 - SUGGESTED_RANGE_DAYS);
+  if (startDate && from < startDate) from = startDate;
+  return {
+    current: { from, to },
+    baseline: {
+      from: addDaysToDayKey(from, -SUGGESTED_RANGE_DAYS),
+      to: addDaysToDayKey(from, -1),
+    },
+  };
+}
+
+export default function ComparisonControls({
+  startDate,
+  endDate,
+  comparison,
+  onCompareRanges,
+  onCompareAnalysis,
+  onStop,
+  disabled,
+}: ComparisonControlsProps) {
+  const [isChoosing, setIsChoosing] = useState(false);
+  const [ranges, setRanges] = useState(() => suggestRanges(startDate, endDate));
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const open = () => {
+    setRanges(suggestRanges(startDate, endDate));
+    setError("");
+    setIsChoosing(true);
+  };
+
+  const handleCompareRanges = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    try {
+      onCompareRanges(ranges.current, ranges.baseline);
+      setIsChoosing(false);
+    } catch (err: any) {
+      setError(err?.message || "Something went wrong.");
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow opening the same file again
+    e.target.value = "";
+    if (!file) return;
+    setError("");
+    try {
+      await onCompareAnalysis(file);
+      setIsChoosing(false);
+    } catch (err: any) {
+      setError(err?.message || "Something went wrong.");
+    }
+  };
+
+  const setRangeDay = (
+    side: "current" | "baseline",
+    bound: keyof DayRange,
+    day: string
+  ) => {
+    if (!day) return;
+    setRanges((previous) => ({
+      ...previous,
+      [side]: { ...previous[side], [bound]: day },
+    }));
+  };
+
+  const renderRangeInputs = (side: "current" | "baseline") => (
+    <>
+      <input
+        type="date"
+        value={ranges[side].from}
+        onChange={(e) => setRangeDay(side, "from", e.target.value)}
+        disabled={disabled}
+        className={INPUT_CLASS_NAME}
+      />
+      <span>–</span>
+      <input
+        type="date"
+        value={ranges[side].to}
+        onChange={(e) => setRangeDay(side, "to", e.target.value)}
+        disabled={disabled}
+        className={INPUT_CLASS_NAME}
+      />
+    </>
+  );
+
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-2 pl-2 mb-4 text-2xs !font-mono text-[#B08AFF]/70">
+      <GitCompare className="w-3 h-3 text-violet-300/40" />
+
+      {comparison && (
+        <>
+          <span>
+            comparing{" "}
+            <span className="text-[#E6DBFF]">{comparison.currentLabel}</span>{" "}
+            with{" "}
+            <span className="text-[#E6DBFF]">{comparison.baselineLabel}</span>
+          </span>
+          <button
+            type="button"
+            onClick={onStop}
+            disabled={disabled}
+            className={`ml-3 ${BUTTON_CLASS_NAME}`}
+          >
+            <X className="w-2.5 h-2.5 mr-1" /> stop comparing
+          </button>
+        </>
+      )}
+
+      {!comparison && !isChoosing && (
+        <button
+          type="button"
+          onClick={open}
+          disabled={disabled}
+          title="Show how two date ranges, or this and another analysis, differ"
+          className={BUTTON_CLASS_NAME}
+        >
+          compare
+        </button>
+      )}
+
+      {!comparison && isChoosing && (
+        <form
+          onSubmit={handleCompareRanges}
+          className="flex flex-row flex-wrap items-center gap-2"
+        >
+          {renderRangeInputs("current")}
+          <span>with</span>
+          {renderRangeInputs("baseline")}
+          <button
+            type="submit"
+            disabled={disabled}
+            className={BUTTON_CLASS_NAME}
+          >
+            compare ranges
+          </button>
+          <span className="ml-3">or</span>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            title="Compare with an analysis saved earlier, e.g. a colleague's"
+            className={BUTTON_CLASS_NAME}
+          >
+            <FolderOpen className="w-2.5 h-2.5 mr-1" /> with saved analysis
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => {
+              setIsChoosing(false);
+              setError("");
+            }}
+            disabled={disabled}
+            className="hover:text-[#E6DBFF] transition-colors disabled:opacity-50"
+          >
+            cancel
+          </button>
+        </form>
+      )}
+
+      {error && <span className="ml-3 text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -6,39 +6,67 @@ import {
   CheckCircle,
   Lock,
   Database,
+  X,
 } from "lucide-react";
 import GlitchText from "../GlitchText";
+import { ProcessingProgress } from "@/lib/calculator";
 
 type FileUploadProps = {
   onFileSelect: (files: FileList) => void;
   isProcessing: boolean;
   status: string;
   errorMsg: string;
+  /** Name of the export format recognised in the selected file, if known */
+  detectedFormat?: string;
+  /** Which of several selected files is being processed */
+  fileProgress?: { index: number; count: number; name: string } | null;
+  /** Percentage of the file read (and parsed, as it is streamed) so far */
+  readProgress?: number;
+  /** Progress of tokenizing the conversations read so far */
+  progress?: ProcessingProgress | null;
+  /** Stops processing the selected file */
+  onCancel?: () => void;
 };
 
+/**
+ * Format a duration as e.g. "45s" or "3m 20s".
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
 export default function FileUpload({
   onFileSelect,
   isProcessing,
   status,
   errorMsg,
+  detectedFormat,
+  fileProgress,
+  readProgress = 0,
+  progress,
+  onCancel,
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Extract progress percentage from status string if available
-  const progressMatch = status.match(/\((\d+)%\)/);
-  const progressPercentage = progressMatch ? parseInt(progressMatch[1], 10) : 0;
-
-  // Extract filename from status if available
-  const filenameMatch = status.match(/Reading file: (.*?) \(/);
-  const filename = filenameMatch ? filenameMatch[1] : "";
-
   // Determine the current stage of processing
   const isReading = status.includes("Reading");
-  const isParsing = status.includes("Parsing");
   const isTokenizing = status.includes("Tokenizing");
   const isDone = status.includes("Done");
 
+  // The export is streamed, so reading and parsing advance together, with
+  // tokenizing following close behind
+  const tokenizePercentage = isDone
+    ? 100
+    : progress?.totalConversations
+    ? Math.min(
+        100,
+        (progress.conversationsDone / progress.totalConversations) * 100
+      )
+    : 0;
+
   // Get processed filename from "Done! Processed: filename" format
   const processedFilename =
     isDone && status.includes("Processed:")
@@ -103,7 +131,8 @@ export default function FileUpload({
         <input
           ref={fileInputRef}
           type="file"
-          accept="application/json"
+          accept="application/json,.json,text/html,.html,application/zip,.zip"
+          multiple
           onChange={handleChange}
           className="hidden"
           disabled={isProcessing}
@@ -131,7 +160,11 @@ export default function FileUpload({
                   <code className="text-[#E6DBFF] text-2xs bg-[#B08AFF]/20 px-1 rounded-xs !font-mono">
                     conversations.json
                   </code>{" "}
-                  file.
+                  file or the export .zip.
+                </p>
+                <p className="text-xs mt-1 font-sans text-[#B08AFF]/50">
+                  select several exports to merge them — conversations in more
+                  than one are counted once, from the newest copy.
                 </p>
               </div>
             </div>
@@ -144,14 +177,42 @@ export default function FileUpload({
               <div className="w-full flex flex-row justify-between items-center">
                 <h3 className="text-base !font-mono text-violet-100 flex flex-col sm:flex-row sm:items-center items-start space-x-2 w-full justify-between">
                   <GlitchText text="Processing" />
-                  <p className="text-2xs bg-amber-900/60 px-2 rounded-xs text-amber-100 flex flex-row items-center space-x-2 font-sans h-5 sm:my-0 my-2">
-                    <Lock className="w-2.5 h-2.5 mr-1 text-amber-300" /> 100%
-                    on‑device processing
-                  </p>
+                  <div className="flex flex-row items-center space-x-2 sm:my-0 my-2">
+                    <p className="text-2xs bg-amber-900/60 px-2 rounded-xs text-amber-100 flex flex-row items-center space-x-2 font-sans h-5">
+                      <Lock className="w-2.5 h-2.5 mr-1 text-amber-300" /> 100%
+                      on‑device processing
+                    </p>
+                    {onCancel && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onCancel();
+                        }}
+                        className="text-2xs h-5 px-2 rounded-xs font-sans flex flex-row items-center border border-red-800/40 text-red-300/80 hover:bg-red-900/30 hover:text-red-200 transition-colors"
+                      >
+                        <X className="w-2.5 h-2.5 mr-1" /> cancel
+                      </button>
+                    )}
+                  </div>
                 </h3>
               </div>
             </div>
 
+            {fileProgress && (
+              <p className="text-2xs !font-mono text-[#B08AFF]/70 pl-9 -mt-3">
+                file {fileProgress.index + 1} of {fileProgress.count}:{" "}
+                <span className="text-[#E6DBFF]">{fileProgress.name}</span>
+              </p>
+            )}
+
+            {detectedFormat && (
+              <p className="text-2xs !font-mono text-[#B08AFF]/70 pl-9 -mt-3">
+                recognised:{" "}
+                <span className="text-[#E6DBFF]">{detectedFormat}</span>
+              </p>
+            )}
+
             {/* Multi-stage progress bars */}
             <div className="w-full space-y-1 pl-9">
               {/* File Reading Stage */}
@@ -162,19 +223,11 @@ export default function FileUpload({
                 <div className="flex-1 h-0.5 bg-violet-800/20 rounded-full overflow-hidden ml-2 max-w-[80px]">
                   <div
                     className={`h-full rounded-full transition-all duration-300 ${
-                      isReading
-                        ? "bg-violet-600"
-                        : isParsing || isTokenizing || isDone
+                      isReading || isTokenizing || isDone
                         ? "bg-violet-600"
                         : "bg-gray-700/50"
                     }`}
-                    style={{
-                      width: isReading
-                        ? `${progressPercentage}%`
-                        : isParsing || isTokenizing || isDone
-                        ? "100%"
-                        : "0%",
-                    }}
+                    style={{ width: isDone ? "100%" : `${readProgress}%` }}
                   ></div>
                 </div>
               </div>
@@ -187,18 +240,15 @@ export default function FileUpload({
                 <div className="flex-1 h-0.5 bg-violet-800/20 rounded-full overflow-hidden ml-2 max-w-[80px]">
                   <div
                     className={`h-full rounded-full transition-all duration-300 ${
-                      isParsing
-                        ? "bg-violet-600"
-                        : isTokenizing || isDone
+                      isTokenizing || isDone
                         ? "bg-violet-600"
                         : "bg-gray-700/50"
                     }`}
                     style={{
-                      width: isParsing
-                        ? "60%"
-                        : isTokenizing || isDone
-                        ? "100%"
-                        : "0%",
+                      width:
+                        isTokenizing || isDone
+                          ? `${isDone ? 100 : readProgress}%`
+                          : "0%",
                     }}
                   ></div>
                 </div>
@@ -218,12 +268,30 @@ export default function FileUpload({
                         ? "bg-violet-600"
                         : "bg-gray-700/50"
                     }`}
-                    style={{
-                      width: isTokenizing ? "70%" : isDone ? "100%" : "0%",
-                    }}
+                    style={{ width: `${tokenizePercentage}%` }}
                   ></div>
                 </div>
               </div>
+
+              {progress && (
+                <p className="text-2xs !font-mono text-[#B08AFF]/70 pt-1">
+                  <span className="text-[#E6DBFF]">
+                    {progress.conversationsDone.toLocaleString()}
+                  </span>
+                  {progress.totalConversations !== undefined &&
+                    ` / ${
+                      progress.isTotalEstimated ? "~" : ""
+                    }${progress.totalConversations.toLocaleString()}`}{" "}
+                  conversations ·{" "}
+                  <span className="text-[#E6DBFF]">
+                    {progress.tokensCounted.toLocaleString()}
+                  </span>{" "}
+                  tokens
+                  {progress.etaMs !== undefined &&
+                    !isDone &&
+                    ` · ~${formatDuration(progress.etaMs)} left`}
+                </p>
+              )}
             </div>
           </div>
         )}
@@ -238,7 +306,7 @@ export default function FileUpload({
               <p className="font-semibold">Error</p>
               <p>{errorMsg}</p>
               <p className="mt-1 text-xs text-[#B08AFF] opacity-50">
-                Try a different file or check if your JSON export file is valid.
+                Try a different file or check if your JSON or ZIP export file is valid.
               </p>
             </div>
           </div>
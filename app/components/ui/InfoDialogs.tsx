@@ -175,7 +175,10 @@ export function HowItWorksDialog() {
                     </p>
                     <p>
                       it's never saved permanently or stored anywhere long-term.
-                      all processing happens in volatile memory.
+                      all processing happens in volatile memory. only if you
+                      tick "remember on this device" are the results (never
+                      the conversations) kept in your browser, until you
+                      forget them.
                     </p>
                   </div>
                   <div className="flex flex-row items-start space-x-1">
@@ -187,6 +190,17 @@ export function HowItWorksDialog() {
                       are gone from system memory.
                     </p>
                   </div>
+                  <div className="flex flex-row items-start space-x-1">
+                    <p className="text-violet-600/60 mt-px font-light font-mono text-3xs">
+                      →
+                    </p>
+                    <p>
+                      anything you do keep on this device can be protected
+                      with a passphrase: it's encrypted with AES-GCM using a
+                      key derived from your passphrase (PBKDF2), and the
+                      passphrase itself is never stored.
+                    </p>
+                  </div>
                 </div>
               </div>
 
@@ -334,9 +348,9 @@ export function HowItWorksDialog() {
                       →
                     </p>
                     <p>
-                      large files are processed in 2mb chunks via readable
-                      streams to avoid blocking the main ui thread and manage
-                      memory usage.
+                      the file is streamed and parsed one conversation at a
+                      time, so memory usage stays flat no matter how large the
+                      export is.
                     </p>
                   </div>
                   <div className="flex flex-row items-start space-x-1">
@@ -364,8 +378,8 @@ export function HowItWorksDialog() {
                       →
                     </p>
                     <p>
-                      a dedicated web worker handles tokenization using a
-                      wasm-compiled version of{" "}
+                      a pool of web workers, one per cpu core, handles
+                      tokenization using a wasm-compiled version of{" "}
                       <code className="text-violet-100/90 text-3xs bg-[#B08AFF]/20 px-1 rounded-xs !font-mono mx-0.5">
                         js-tiktoken
                       </code>
@@ -404,7 +418,10 @@ export function HowItWorksDialog() {
                     <p>
                       input tokens for each assistant message are calculated
                       based on the cumulative context of prior messages in that
-                      conversation turn.
+                      conversation turn. regenerated responses and edited
+                      prompts are followed as branches, each with its own
+                      history — count every branch, or only the active path you
+                      kept.
                     </p>
                   </div>
                   <div className="flex flex-row items-start space-x-1">
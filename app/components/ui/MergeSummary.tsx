@@ -0,0 +1,42 @@
+import React from "react";
+import { Layers } from "lucide-react";
+import { PipelineSource } from "@/lib/pipeline";
+
+type MergeSummaryProps = {
+  /** The exports merged into the results, in the order they were read */
+  sources: PipelineSource[];
+  /** Older copies of conversations left out */
+  duplicates: number;
+};
+
+export default function MergeSummary({
+  sources,
+  duplicates,
+}: MergeSummaryProps) {
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-2 pl-2 mb-4 text-2xs !font-mono text-[#B08AFF]/70">
+      <Layers className="w-3 h-3 text-violet-300/40" />
+      <span>merged {sources.length} exports:</span>
+      {sources.map((source, index) => (
+        <span
+          key={index}
+          title={`${source.importerName}; ${source.kept} newest copies used`}
+          className="px-1 rounded-xs bg-violet-900/30"
+        >
+          {source.fileName}{" "}
+          <span className="text-[#E6DBFF]">
+            {source.conversations.toLocaleString()}
+          </span>{" "}
+          conversations
+        </span>
+      ))}
+      <span
+        className="ml-3"
+        title="Conversations found in several exports are counted once, from their most recently updated copy"
+      >
+        <span className="text-[#E6DBFF]">{duplicates.toLocaleString()}</span>{" "}
+        duplicates left out
+      </span>
+    </div>
+  );
+}
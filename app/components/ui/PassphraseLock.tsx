@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import { KeyRound, Lock, Unlock } from "lucide-react";
+
+/**
+ * Whether the data kept on this device is protected by a passphrase, and if
+ * so whether it has been unlocked this session.
+ */
+export type EncryptionStatus = "none" | "locked" | "unlocked";
+
+type PassphraseLockProps = {
+  status: EncryptionStatus;
+  /** Protect the data on this device with a new passphrase */
+  onSetUp: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  /** Go back to storing the data unencrypted */
+  onRemove: () => void;
+  /** Erase everything kept on this device, for a forgotten passphrase */
+  onErase: () => void;
+  disabled?: boolean;
+};
+
+/** Shortest passphrase accepted for new passphrases */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const INPUT_CLASS_NAME =
+  "bg-black/40 border border-violet-800/40 rounded-xs px-1 py-0.5 text-[#E6DBFF] w-40 disabled:opacity-50";
+const BUTTON_CLASS_NAME =
+  "px-2 py-0.5 rounded-xs border border-violet-800/40 flex flex-row items-center hover:bg-violet-900/40 transition-colors disabled:opacity-50";
+
+export default function PassphraseLock({
+  status,
+  onSetUp,
+  onUnlock,
+  onRemove,
+  onErase,
+  disabled,
+}: PassphraseLockProps) {
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState("");
+  // Key derivation takes a moment on purpose
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError("");
+    setIsBusy(true);
+    try {
+      await action();
+      setPassphrase("");
+      setConfirmation("");
+      setIsSettingUp(false);
+    } catch (err: any) {
+      setError(err?.message || "Something went wrong.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSetUp = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("The passphrases don't match.");
+      return;
+    }
+    run(() => onSetUp(passphrase));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => onUnlock(passphrase));
+  };
+
+  const isDisabled = disabled || isBusy;
+
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-2 pl-2 mb-4 text-2xs !font-mono text-[#B08AFF]/70">
+      {status === "locked" && (
+        <form
+          onSubmit={handleUnlock}
+          className="flex flex-row flex-wrap items-center gap-2"
+        >
+          <Lock className="w-3 h-3 text-amber-300/80" />
+          <span className="text-[#E6DBFF]">data on this device is locked</span>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="passphrase"
+            autoComplete="current-password"
+            disabled={isDisabled}
+            className={INPUT_CLASS_NAME}
+          />
+          <button
+            type="submit"
+            disabled={isDisabled || !passphrase}
+            className={BUTTON_CLASS_NAME}
+          >
+            <Unlock className="w-2.5 h-2.5 mr-1" />
+            {isBusy ? "unlocking..." : "unlock"}
+          </button>
+          <button
+            type="button"
+            onClick={onErase}
+            disabled={isDisabled}
+            title="The passphrase can't be recovered; this erases everything kept on this device"
+            className="ml-3 hover:text-[#E6DBFF] transition-colors disabled:opacity-50"
+          >
+            forgot it? erase stored data
+          </button>
+        </form>
+      )}
+
+      {status === "unlocked" && (
+        <>
+          <Lock className="w-3 h-3 text-violet-300/40" />
+          <span>encrypted with your passphrase</span>
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={isDisabled}
+            className={`ml-3 ${BUTTON_CLASS_NAME}`}
+          >
+            remove passphrase
+          </button>
+        </>
+      )}
+
+      {status === "none" && !isSettingUp && (
+        <button
+          type="button"
+          onClick={() => setIsSettingUp(true)}
+          disabled={isDisabled}
+          title="Encrypt the results and token counts kept on this device"
+          className={BUTTON_CLASS_NAME}
+        >
+          <KeyRound className="w-2.5 h-2.5 mr-1" /> protect with passphrase
+        </button>
+      )}
+
+      {status === "none" && isSettingUp && (
+        <form
+          onSubmit={handleSetUp}
+          className="flex flex-row flex-wrap items-center gap-2"
+        >
+          <KeyRound className="w-3 h-3 text-violet-300/40" />
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="new passphrase"
+            autoComplete="new-password"
+            disabled={isDisabled}
+            className={INPUT_CLASS_NAME}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="repeat passphrase"
+            autoComplete="new-password"
+            disabled={isDisabled}
+            className={INPUT_CLASS_NAME}
+          />
+          <button
+            type="submit"
+            disabled={isDisabled}
+            className={BUTTON_CLASS_NAME}
+          >
+            {isBusy ? "encrypting..." : "encrypt"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsSettingUp(false);
+              setError("");
+            }}
+            disabled={isDisabled}
+            className="hover:text-[#E6DBFF] transition-colors disabled:opacity-50"
+          >
+            cancel
+          </button>
+        </form>
+      )}
+
+      {error && <span className="ml-3 text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React from "react";
+import { HardDrive, Trash2 } from "lucide-react";
+
+type RememberAnalysisProps = {
+  /** Whether the latest analysis is kept on this device */
+  remember: boolean;
+  onRememberChange: (remember: boolean) => void;
+  /** Size of the stored analysis in bytes, or null if nothing is stored */
+  storedBytes: number | null;
+  onForget: () => void;
+  disabled?: boolean;
+};
+
+/**
+ * Format a size in bytes for display, e.g. "1.4 MB".
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function RememberAnalysis({
+  remember,
+  onRememberChange,
+  storedBytes,
+  onForget,
+  disabled,
+}: RememberAnalysisProps) {
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-2 pl-2 mb-4 text-2xs !font-mono text-[#B08AFF]/70">
+      <HardDrive className="w-3 h-3 text-violet-300/40" />
+      <label
+        className="flex flex-row items-center gap-2 cursor-pointer"
+        title="Keep the results (never the conversations) in this browser, so they're here when you come back"
+      >
+        <input
+          type="checkbox"
+          checked={remember}
+          disabled={disabled}
+          onChange={(e) => onRememberChange(e.target.checked)}
+          className="accent-violet-600"
+        />
+        remember on this device
+      </label>
+      {storedBytes !== null && (
+        <>
+          <span className="ml-3 text-[#E6DBFF]">
+            {formatBytes(storedBytes)} stored
+          </span>
+          <button
+            type="button"
+            onClick={onForget}
+            disabled={disabled}
+            className="ml-3 px-2 py-0.5 rounded-xs border border-violet-800/40 flex flex-row items-center hover:bg-violet-900/40 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-2.5 h-2.5 mr-1" /> forget
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
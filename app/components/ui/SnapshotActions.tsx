@@ -0,0 +1,111 @@
+import React, { useRef } from "react";
+import { AlertTriangle, Download, FolderOpen } from "lucide-react";
+import { PRICING_VERSION } from "@/lib/calculator";
+import { SnapshotMetadata } from "@/lib/snapshot";
+
+type SnapshotActionsProps = {
+  /** Whether there is an analysis to save */
+  canSave: boolean;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+  /** Metadata of the analysis on display, if it was opened from a file */
+  openedSnapshot?: SnapshotMetadata | null;
+  disabled?: boolean;
+};
+
+/**
+ * Format an ISO date for display, e.g. "Mar 9, 2025".
+ */
+function formatDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  return isNaN(date.getTime())
+    ? isoDate
+    : date.toLocaleDateString(undefined, {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      });
+}
+
+export default function SnapshotActions({
+  canSave,
+  onSave,
+  onOpen,
+  openedSnapshot,
+  disabled,
+}: SnapshotActionsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow opening the same file again
+    e.target.value = "";
+    if (file) onOpen(file);
+  };
+
+  const isOutdatedPricing =
+    openedSnapshot?.pricingVersion !== undefined &&
+    openedSnapshot.pricingVersion !== PRICING_VERSION;
+  // Snapshots saved in the local timezone before it was recorded by name
+  const isUnknownTimeZone = !!openedSnapshot && !openedSnapshot.timeZone;
+
+  return (
+    <div className="flex flex-row flex-wrap items-center gap-2 pl-2 mb-4 text-2xs !font-mono text-[#B08AFF]/70">
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled}
+        title="Open an analysis saved earlier, without the original export"
+        className="px-2 py-0.5 rounded-xs border border-violet-800/40 flex flex-row items-center hover:bg-violet-900/40 transition-colors disabled:opacity-50"
+      >
+        <FolderOpen className="w-2.5 h-2.5 mr-1" /> open analysis
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      {canSave && (
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={disabled}
+          title="Download this analysis as a file you can open again later"
+          className="px-2 py-0.5 rounded-xs border border-violet-800/40 flex flex-row items-center hover:bg-violet-900/40 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-2.5 h-2.5 mr-1" /> save analysis
+        </button>
+      )}
+
+      {openedSnapshot && (
+        <span className="ml-3">
+          saved analysis
+          {openedSnapshot.sourceFileName &&
+            ` of ${openedSnapshot.sourceFileName}`}
+          {openedSnapshot.processedAt &&
+            ` · analysed ${formatDate(openedSnapshot.processedAt)}`}
+        </span>
+      )}
+      {isOutdatedPricing && (
+        <span
+          className="flex flex-row items-center text-amber-300/80"
+          title={`Costs were calculated with the ${openedSnapshot?.pricingVersion} prices; current prices are ${PRICING_VERSION}`}
+        >
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {openedSnapshot?.pricingVersion} prices
+        </span>
+      )}
+      {isUnknownTimeZone && (
+        <span
+          className="flex flex-row items-center text-amber-300/80"
+          title="This analysis doesn't say which timezone its days and hours are in, so they may not be in the one selected. Pick a timezone to re-bucket them."
+        >
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          unknown timezone
+        </span>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React from "react";
 import GlitchText from "../GlitchText";
 import { Aggregator } from "@/lib/calculator";
 import { getModelCategory } from "@/lib/model-utils";
+import UsageChange from "./UsageChange";
 import { Info } from "lucide-react";
 import {
   Tooltip,
@@ -16,6 +17,8 @@ interface StatItemProps {
   unit?: string;
   className?: string;
   tooltip?: React.ReactNode;
+  /** How the value changed from the compared aggregate */
+  change?: React.ReactNode;
 }
 
 const formatNumberForDisplay = (
@@ -42,6 +45,7 @@ function StatItem({
   unit: explicitUnit,
   className,
   tooltip,
+  change,
 }: StatItemProps) {
   let displayValue: string;
   let displayUnit: string | undefined;
@@ -86,18 +90,23 @@ function StatItem({
           </span>
         )}
       </div>
+      {change && <div className="mt-0.5 text-3xs font-mono">{change}</div>}
     </div>
   );
 }
 
 interface SummaryStatsProps {
   data: Aggregator;
+  /** An aggregate to show the changes from */
+  comparison?: Aggregator | null;
   className?: string;
 }
 
-export default function SummaryStats({ data, className }: SummaryStatsProps) {
-  // Calculate key metrics from the aggregator data
-  const totalCost = data.totalCostAllModels?.toFixed(2) || "0";
+/**
+ * Calculate the key metrics of an aggregate.
+ */
+function summarize(data: Aggregator) {
+  const totalCost = data.totalCostAllModels ?? 0;
 
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
@@ -180,17 +189,65 @@ export default function SummaryStats({ data, className }: SummaryStatsProps) {
   const userSinceDateFormatted =
     formatDateFriendly(userSinceDateRaw).toLowerCase();
 
+  return {
+    totalCost,
+    totalTokens: totalInputTokens + totalOutputTokens,
+    totalMessages,
+    totalConversations,
+    userSinceDateFormatted,
+    totalModelsUsed,
+    avgCostPerConversation,
+    topModelByUsage,
+    topModelByCost,
+  };
+}
+
+type Summary = ReturnType<typeof summarize>;
+
+export default function SummaryStats({
+  data,
+  comparison,
+  className,
+}: SummaryStatsProps) {
+  const summary = summarize(data);
+  const baseline = comparison ? summarize(comparison) : null;
+
+  // The change of a number from the compared aggregate
+  const numberChange = (
+    key: keyof Summary,
+    format?: (value: number) => string
+  ) =>
+    baseline && (
+      <UsageChange
+        current={summary[key] as number}
+        baseline={baseline[key] as number}
+        format={format}
+      />
+    );
+  // What a text stat was in the compared aggregate, if it's different
+  const textChange = (key: keyof Summary) =>
+    baseline &&
+    baseline[key] !== summary[key] && (
+      <span className="text-violet-400/70">was {baseline[key]}</span>
+    );
+  const formatUsd = (value: number) => `${value.toFixed(2)} USD`;
+
   return (
     <TooltipProvider>
       <div className={className}>
         <div className="grid grid-cols-2 md:grid-cols-3 sm:gap-6 gap-4 mb-6 sm:mt-18 mt-6">
-          <StatItem label="Total Conversations" value={totalConversations} />
+          <StatItem
+            label="Total Conversations"
+            value={summary.totalConversations}
+            change={numberChange("totalConversations")}
+          />
 
           <StatItem
             label="Estimated Cost"
-            value={totalCost}
+            value={summary.totalCost.toFixed(2)}
             unit="USD"
             className="mb-0"
+            change={numberChange("totalCost", formatUsd)}
             tooltip={
               <div className="text-2xs space-y-1">
                 <p>best effort estimate that doesn&apos;t factor in:</p>
@@ -206,12 +263,14 @@ export default function SummaryStats({ data, className }: SummaryStatsProps) {
 
           <StatItem
             label="Total Tokens"
-            value={totalInputTokens + totalOutputTokens}
+            value={summary.totalTokens}
+            change={numberChange("totalTokens")}
           />
 
           <StatItem
             label="Total Messages"
-            value={totalMessages}
+            value={summary.totalMessages}
+            change={numberChange("totalMessages")}
             tooltip={
               <div className="text-2xs">
                 includes user, ai, system and intermediate tool messages
@@ -219,19 +278,36 @@ export default function SummaryStats({ data, className }: SummaryStatsProps) {
             }
           />
 
-          <StatItem label="User Since" value={userSinceDateFormatted} />
+          <StatItem
+            label="User Since"
+            value={summary.userSinceDateFormatted}
+            change={textChange("userSinceDateFormatted")}
+          />
 
-          <StatItem label="Models Used" value={totalModelsUsed} />
+          <StatItem
+            label="Models Used"
+            value={summary.totalModelsUsed}
+            change={numberChange("totalModelsUsed")}
+          />
 
           <StatItem
             label="Avg Cost / Conv"
-            value={avgCostPerConversation.toFixed(2)}
+            value={summary.avgCostPerConversation.toFixed(2)}
             unit="USD"
+            change={numberChange("avgCostPerConversation", formatUsd)}
           />
 
-          <StatItem label="Most Used Model" value={topModelByUsage} />
+          <StatItem
+            label="Most Used Model"
+            value={summary.topModelByUsage}
+            change={textChange("topModelByUsage")}
+          />
 
-          <StatItem label="Most Expensive Model" value={topModelByCost} />
+          <StatItem
+            label="Most Expensive Model"
+            value={summary.topModelByCost}
+            change={textChange("topModelByCost")}
+          />
         </div>
       </div>
     </TooltipProvider>
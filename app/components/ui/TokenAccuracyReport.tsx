@@ -0,0 +1,110 @@
+import React from "react";
+import { TokenAccuracy } from "@/lib/calculator";
+
+type TokenAccuracyReportProps = {
+  accuracy?: TokenAccuracy;
+};
+
+const CATEGORIES: {
+  key: keyof TokenAccuracy;
+  label: string;
+  hint: string;
+  color: string;
+}[] = [
+  {
+    key: "exact",
+    label: "exact",
+    hint: "counted by the tokenizer, or from image dimensions",
+    color: "bg-violet-500",
+  },
+  {
+    key: "estimated",
+    label: "estimated",
+    hint: "tokenizer unavailable — characters ÷ 4",
+    color: "bg-amber-500",
+  },
+  {
+    key: "defaulted",
+    label: "defaulted",
+    hint: "unknown parts (20 tokens), images without a size (1024×1024)",
+    color: "bg-red-500",
+  },
+];
+
+/**
+ * How much to trust the totals, given the share of exactly counted tokens.
+ */
+function getConfidence(exactShare: number): {
+  label: string;
+  className: string;
+} {
+  if (exactShare >= 0.99) {
+    return { label: "high", className: "text-[#E6DBFF]" };
+  }
+  if (exactShare >= 0.9) {
+    return { label: "medium", className: "text-amber-300" };
+  }
+  return { label: "low", className: "text-red-400" };
+}
+
+export default function TokenAccuracyReport({
+  accuracy,
+}: TokenAccuracyReportProps) {
+  if (!accuracy) {
+    return (
+      <p className="sm:mt-18 mt-6 text-xs font-sans text-[#B08AFF] opacity-70">
+        No accuracy information for this analysis.
+      </p>
+    );
+  }
+
+  const total = accuracy.exact + accuracy.estimated + accuracy.defaulted;
+  const share = (value: number) => (total > 0 ? value / total : 0);
+  const confidence = getConfidence(total > 0 ? share(accuracy.exact) : 1);
+
+  return (
+    <div className="sm:mt-18 mt-6 space-y-4">
+      <div className="flex flex-col">
+        <p className="text-xs font-sans text-[#B08AFF] opacity-70 lowercase mb-1">
+          confidence
+        </p>
+        <p className={`text-2xl !font-mono ${confidence.className}`}>
+          {confidence.label}
+        </p>
+      </div>
+
+      <div className="flex flex-row h-1.5 w-full rounded-full overflow-hidden bg-violet-800/20">
+        {CATEGORIES.map(({ key, color }) => (
+          <div
+            key={key}
+            className={color}
+            style={{ width: `${share(accuracy[key]) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {CATEGORIES.map(({ key, label, hint, color }) => (
+          <div key={key} className="flex flex-row items-start gap-2">
+            <span className={`w-2 h-2 mt-1 rounded-xs shrink-0 ${color}`} />
+            <div className="flex flex-col w-full">
+              <p className="text-2xs !font-mono text-[#E6DBFF] flex flex-row justify-between">
+                <span>{label}</span>
+                <span>
+                  {accuracy[key].toLocaleString()} ·{" "}
+                  {(share(accuracy[key]) * 100).toFixed(1)}%
+                </span>
+              </p>
+              <p className="text-2xs font-sans text-[#B08AFF]/70">{hint}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-2xs font-sans text-[#B08AFF]/50">
+        Shares of the tokens in the messages themselves; billed input re-counts
+        them as conversation context.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React from "react";
+import { HardDrive, Trash2 } from "lucide-react";
+import { TokenCacheStats } from "@/lib/tokenCache";
+
+type TokenCacheDiagnosticsProps = {
+  /** Cache statistics of the last analysis */
+  stats: TokenCacheStats;
+  /** Whether token counts are kept on this device between sessions */
+  persistent: boolean;
+  onPersistentChange: (persistent: boolean) => void;
+  onClear: () => void;
+  disabled?: boolean;
+};
+
+function DiagnosticItem({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col">
+      <p className="text-xs font-sans text-[#B08AFF] opacity-70 lowercase mb-1">
+        {label}
+      </p>
+      <p className="text-lg !font-mono text-[#E6DBFF]">{value}</p>
+    </div>
+  );
+}
+
+export default function TokenCacheDiagnostics({
+  stats,
+  persistent,
+  onPersistentChange,
+  onClear,
+  disabled,
+}: TokenCacheDiagnosticsProps) {
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? (stats.hits / lookups) * 100 : 0;
+
+  return (
+    <div className="sm:mt-18 mt-6 space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 sm:gap-6 gap-4">
+        <DiagnosticItem
+          label="cache hit rate"
+          value={`${hitRate.toFixed(1)}%`}
+        />
+        <DiagnosticItem
+          label="texts from cache"
+          value={stats.hits.toLocaleString()}
+        />
+        <DiagnosticItem
+          label="texts tokenized"
+          value={stats.misses.toLocaleString()}
+        />
+        <DiagnosticItem
+          label="tokens from cache"
+          value={stats.hitTokens.toLocaleString()}
+        />
+        <DiagnosticItem
+          label="cached counts"
+          value={stats.entries.toLocaleString()}
+        />
+      </div>
+
+      <div className="flex flex-row flex-wrap items-center gap-2 text-2xs !font-mono text-[#B08AFF]/70">
+        <HardDrive className="w-3 h-3 text-violet-300/40" />
+        <label className="flex flex-row items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={persistent}
+            disabled={disabled}
+            onChange={(e) => onPersistentChange(e.target.checked)}
+            className="accent-violet-600"
+          />
+          remember token counts on this device
+          {stats.encrypted && " (encrypted)"}
+        </label>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={disabled}
+          className="ml-3 px-2 py-0.5 rounded-xs border border-violet-800/40 flex flex-row items-center hover:bg-violet-900/40 transition-colors disabled:opacity-50"
+        >
+          <Trash2 className="w-2.5 h-2.5 mr-1" /> clear cache
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React from "react";
+import { formatChange } from "@/lib/comparison";
+
+type UsageChangeProps = {
+  /** Value in the aggregate on display */
+  current: number;
+  /** Value in the aggregate it is compared with */
+  baseline: number;
+  /** Formats the baseline value for the tooltip */
+  format?: (value: number) => string;
+  className?: string;
+};
+
+/**
+ * The change of a value from the compared aggregate, e.g. "+12%".
+ */
+export default function UsageChange({
+  current,
+  baseline,
+  format = (value) => value.toLocaleString(),
+  className = "",
+}: UsageChangeProps) {
+  const color =
+    current === baseline ? "text-violet-400/50" : "text-amber-300/80";
+
+  return (
+    <span
+      className={`font-mono text-3xs whitespace-nowrap ${color} ${className}`}
+      title={`was ${format(baseline)}`}
+    >
+      {formatChange(current, baseline)}
+    </span>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from "react";
 import { Aggregator } from "@/lib/calculator";
+import { loadSnapshot } from "@/lib/snapshot";
 import GlitchBackground from "@/app/components/GlitchBackground";
 import GlitchText from "@/app/components/GlitchText";
 import CalendarHeatmap from "@/app/components/charts/CalendarHeatmap";
@@ -35,45 +36,20 @@ export default function TestPage() {
       try {
         const response = await fetch("/aggregate.json");
         if (response.ok) {
-          const loadedData: Aggregator = await response.json();
-
-          // Recalculate missing summary fields
-          const dayKeys = Object.keys(loadedData.usageByDay);
-          if (dayKeys.length > 0) {
-            dayKeys.sort(); // Ensure chronological order
-            loadedData.startDate = dayKeys[0];
-            loadedData.endDate = dayKeys[dayKeys.length - 1];
-
-            let totalCost = 0;
-            const modelSlugs = new Set<string>();
-            Object.values(loadedData.usageByDay).forEach((dayBucket) => {
-              totalCost += dayBucket.total.cost;
-              Object.keys(dayBucket.models).forEach((slug) =>
-                modelSlugs.add(slug)
-              );
-            });
-            loadedData.totalCostAllModels = totalCost;
-            // Convert Set back to something JSON-serializable if needed, but fine for state
-            // For the state, we need a real Set for the AggregatorSummary component
-            loadedData.allModelSlugs = modelSlugs;
-          } else {
-            // Handle case where usageByDay is empty
-            loadedData.startDate = undefined;
-            loadedData.endDate = undefined;
-            loadedData.totalCostAllModels = 0;
-            loadedData.allModelSlugs = new Set<string>();
-          }
-
-          setResults(loadedData); // Set the enhanced data
+          // Either a saved snapshot or a plain aggregate, which is migrated
+          const { aggregator } = loadSnapshot(await response.text());
+          setResults(aggregator);
           setStatus("Loaded data from public/aggregate.json (test mode)");
-          console.log("Loaded and enhanced test data:", loadedData);
+          console.log("Loaded test data:", aggregator);
         } else {
           setErrorMsg("/aggregate.json not found or fetch failed");
           console.log("/aggregate.json not found or fetch failed");
         }
       } catch (error) {
         console.error("Error fetching /aggregate.json:", error);
-        setErrorMsg("Error fetching test data");
+        setErrorMsg(
+          error instanceof Error ? error.message : "Error fetching test data"
+        );
       }
     };
 
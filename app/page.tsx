@@ -1,8 +1,47 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
-import { processConversations, Aggregator } from "@/lib/calculator";
-import { readFileWithProgress, validateOpenAIExport } from "@/lib/fileUtils";
+import React, {
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+  useMemo,
+} from "react";
+import {
+  rebucketAggregator,
+  isAbortError,
+  Aggregator,
+  BranchMode,
+  DEFAULT_PROCESSING_OPTIONS,
+  ProcessingProgress,
+} from "@/lib/calculator";
+import {
+  analyzeFilesInWorker,
+  clearWorkerTokenCache,
+  encryptWorkerTokenCache,
+  setWorkerTokenCachePersistence,
+} from "@/lib/pipelineClient";
+import { loadSnapshot, saveSnapshot, SnapshotMetadata } from "@/lib/snapshot";
+import {
+  compareAggregators,
+  compareDateRanges,
+  Comparison,
+  DayRange,
+} from "@/lib/comparison";
+import {
+  forgetLocalAnalysis,
+  loadLocalAnalysis,
+  saveLocalAnalysis,
+} from "@/lib/analysisStorage";
+import {
+  isEncryptionSetUp,
+  removeEncryption,
+  setUpEncryption,
+  unlockEncryption,
+} from "@/lib/encryption";
+import { TokenCacheStats } from "@/lib/tokenCache";
+import { getLocalTimeZone } from "@/lib/timezone";
+import { PipelineSource } from "@/lib/pipeline";
 import GlitchBackground from "./components/GlitchBackground";
 import GlitchText from "./components/GlitchText";
 import CalendarHeatmap from "./components/charts/CalendarHeatmap";
@@ -17,6 +56,16 @@ import AggregatorSummaryTable from "./components/charts/AggregatorTable";
 import { ShaderGradientCanvas, ShaderGradient } from "@shadergradient/react";
 import SummaryStats from "./components/ui/SummaryStats";
 import FileUpload from "./components/ui/FileUpload";
+import AnalysisOptions from "./components/ui/AnalysisOptions";
+import SnapshotActions from "./components/ui/SnapshotActions";
+import ComparisonControls from "./components/ui/ComparisonControls";
+import MergeSummary from "./components/ui/MergeSummary";
+import RememberAnalysis from "./components/ui/RememberAnalysis";
+import PassphraseLock, {
+  EncryptionStatus,
+} from "./components/ui/PassphraseLock";
+import TokenCacheDiagnostics from "./components/ui/TokenCacheDiagnostics";
+import TokenAccuracyReport from "./components/ui/TokenAccuracyReport";
 import Link from "next/link";
 import {
   GitHubLink,
@@ -28,8 +77,39 @@ import { AlertTriangle } from "lucide-react";
 // Mark this page as client-side only rendering
 export const dynamic = "force-dynamic";
 
-// File size limit in MB
-const FILE_SIZE_LIMIT = 200;
+// localStorage key remembering that token counts should be kept on this device
+const TOKEN_CACHE_PERSISTENCE_KEY = "what-the-token:token-cache-persistent";
+// localStorage key remembering that the latest analysis should be kept
+const REMEMBER_ANALYSIS_KEY = "what-the-token:remember-analysis";
+
+// What the results are compared with: two of their date ranges, or another
+// analysis
+type ComparisonSource =
+  | { type: "ranges"; current: DayRange; baseline: DayRange }
+  | { type: "analysis"; aggregator: Aggregator; label: string };
+
+/**
+ * Compare the results as described by a comparison source. Another analysis
+ * is re-bucketed into the results' timezone first, so their days line up.
+ * @throws Error if the results can't be compared that way
+ */
+function buildComparison(
+  results: Aggregator,
+  source: ComparisonSource,
+  resultsMetadata?: SnapshotMetadata | null
+): Comparison {
+  if (source.type === "ranges") {
+    return compareDateRanges(results, source.current, source.baseline);
+  }
+  const baseline =
+    source.aggregator.timeZone === results.timeZone
+      ? source.aggregator
+      : rebucketAggregator(source.aggregator, results.timeZone);
+  return compareAggregators(results, baseline, {
+    current: resultsMetadata?.sourceFileName ?? "this analysis",
+    baseline: source.label,
+  });
+}
 
 export default function HomePage() {
   const [status, setStatus] = useState<string>("");
@@ -37,65 +117,434 @@ export default function HomePage() {
   const [errorMsg, setErrorMsg] = useState<string>("");
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [readProgress, setReadProgress] = useState<number>(0);
+  const [processingProgress, setProcessingProgress] =
+    useState<ProcessingProgress | null>(null);
+  const [detectedFormat, setDetectedFormat] = useState<string>("");
+  const [branchMode, setBranchMode] = useState<BranchMode>(
+    DEFAULT_PROCESSING_OPTIONS.branchMode
+  );
+  // IANA timezone for day/hour bucketing; undefined means the browser's own
+  const [timeZone, setTimeZone] = useState<string | undefined>(undefined);
+  // The last files selected, kept so changing an option can re-process them
+  const [currentFiles, setCurrentFiles] = useState<File[]>([]);
+  // Which of several selected files is being processed
+  const [fileProgress, setFileProgress] = useState<{
+    index: number;
+    count: number;
+    name: string;
+  } | null>(null);
+  // What each of several merged exports contributed to the results
+  const [mergedSources, setMergedSources] = useState<{
+    sources: PipelineSource[];
+    duplicates: number;
+  } | null>(null);
+  // Aborts the file currently being processed
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [tokenCacheStats, setTokenCacheStats] =
+    useState<TokenCacheStats | null>(null);
+  const [tokenCachePersistent, setTokenCachePersistent] = useState(false);
+  // What is known about how the results were produced, saved with them
+  const [resultsMetadata, setResultsMetadata] =
+    useState<SnapshotMetadata | null>(null);
+  // Whether the results were opened from a saved analysis
+  const [isOpenedSnapshot, setIsOpenedSnapshot] = useState(false);
+  const [rememberAnalysis, setRememberAnalysis] = useState(false);
+  // Size of the analysis stored on this device, or null if there is none
+  const [storedAnalysisBytes, setStoredAnalysisBytes] = useState<number | null>(
+    null
+  );
+
+  const [encryptionStatus, setEncryptionStatus] =
+    useState<EncryptionStatus>("none");
+  // Key the data kept on this device is encrypted with, once unlocked
+  const encryptionKeyRef = useRef<CryptoKey | null>(null);
+  const [comparisonSource, setComparisonSource] =
+    useState<ComparisonSource | null>(null);
+
+  // Rebuilt whenever the results change, e.g. in another timezone
+  const comparison = useMemo(() => {
+    if (!results || !comparisonSource) return null;
+    try {
+      return buildComparison(results, comparisonSource, resultsMetadata);
+    } catch (err) {
+      console.error("Could not compare the results:", err);
+      return null;
+    }
+  }, [results, comparisonSource, resultsMetadata]);
+  // When comparing, the dashboard shows the current side of the comparison
+  const dashboardResults = comparison?.current ?? results;
+
+  // Bring back what the user opted in to keeping on this device, once it's
+  // unlocked if it's protected by a passphrase
+  useEffect(() => {
+    isEncryptionSetUp()
+      .catch(() => false)
+      .then((isSetUp) => {
+        if (isSetUp) {
+          setEncryptionStatus("locked");
+        } else {
+          restoreDeviceData();
+        }
+      });
+  }, []);
+
+  // Keep the analysis on display stored while the user wants it remembered
+  useEffect(() => {
+    // Nothing is stored unencrypted while the passphrase hasn't been entered
+    if (!rememberAnalysis || !results || encryptionStatus === "locked") return;
+    saveLocalAnalysis(
+      results,
+      resultsMetadata ?? {},
+      encryptionKeyRef.current ?? undefined
+    )
+      .then(setStoredAnalysisBytes)
+      .catch((err) => console.error("Could not remember the analysis:", err));
+  }, [rememberAnalysis, results, resultsMetadata, encryptionStatus]);
+
+  /**
+   * Turn on what the user opted in to before: persisted token counts and the
+   * remembered analysis, which is shown right away.
+   * @param key Key to decrypt them with, if protected by a passphrase
+   */
+  async function restoreDeviceData(key?: CryptoKey) {
+    if (localStorage.getItem(TOKEN_CACHE_PERSISTENCE_KEY) === "true") {
+      handleTokenCachePersistenceChange(true, key);
+    }
+    if (localStorage.getItem(REMEMBER_ANALYSIS_KEY) !== "true") return;
+    setRememberAnalysis(true);
+    try {
+      const stored = await loadLocalAnalysis(key);
+      if (!stored) return;
+      setResults(stored.aggregator);
+      setResultsMetadata(stored.metadata);
+      setIsOpenedSnapshot(true);
+      // Left unset if unknown, which the snapshot actions point out
+      setTimeZone(stored.metadata.timeZone);
+      setStoredAnalysisBytes(stored.size);
+      setStatus("Restored the analysis remembered on this device");
+    } catch (err) {
+      console.error("Could not restore the remembered analysis:", err);
+    }
+  }
 
   async function handleFile(files: FileList) {
     // Reset state
     setErrorMsg("");
     setResults(null);
     setReadProgress(0);
+    setProcessingProgress(null);
+    setDetectedFormat("");
+    setResultsMetadata(null);
+    setIsOpenedSnapshot(false);
+    setComparisonSource(null);
+    setMergedSources(null);
 
     if (!files || files.length === 0) return;
 
-    const file = files[0];
+    const selectedFiles = Array.from(files);
 
-    // Validate file type
-    if (!file.name.endsWith(".json")) {
-      setErrorMsg("Please upload a JSON file. Only .json files are supported.");
+    // Validate file types
+    const unsupportedFile = selectedFiles.find((file) => {
+      const lowerName = file.name.toLowerCase();
+      return (
+        !lowerName.endsWith(".json") &&
+        !lowerName.endsWith(".html") &&
+        !lowerName.endsWith(".zip")
+      );
+    });
+    if (unsupportedFile) {
+      setErrorMsg(
+        `${unsupportedFile.name}: please upload JSON, HTML or ZIP files. Only .json, .html and .zip files are supported.`
+      );
       return;
     }
 
-    // Validate file size
-    if (file.size > FILE_SIZE_LIMIT * 1024 * 1024) {
-      setErrorMsg(`File is too large. Maximum size is ${FILE_SIZE_LIMIT}MB.`);
-      return;
+    setCurrentFiles(selectedFiles);
+    await processFiles(selectedFiles, branchMode);
+  }
+
+  function handleBranchModeChange(mode: BranchMode) {
+    setBranchMode(mode);
+    // Branches are billed while tokenizing, so the files have to be
+    // re-processed
+    if (currentFiles.length > 0 && !isProcessing) {
+      setErrorMsg("");
+      setResults(null);
+      setDetectedFormat("");
+      processFiles(currentFiles, mode);
     }
+  }
 
-    setIsProcessing(true);
-    setStatus(`Reading file: ${file.name} (0%)`);
+  function handleTimeZoneChange(zone: string | undefined) {
+    setTimeZone(zone);
+    // Usage is kept per conversation, so only the buckets need rebuilding
+    if (results) {
+      try {
+        setResults(rebucketAggregator(results, zone));
+        // The days and hours are now in a known timezone
+        setResultsMetadata(
+          (metadata) =>
+            metadata && { ...metadata, timeZone: zone ?? getLocalTimeZone() }
+        );
+      } catch (err: any) {
+        // Aggregates saved without per-conversation usage can't be re-bucketed
+        console.error("Could not change the timezone:", err);
+        setErrorMsg(err.message);
+      }
+    }
+  }
+
+  function handleSaveAnalysis() {
+    if (!results) return;
+    const snapshot = saveSnapshot(results, resultsMetadata ?? {});
+    const url = URL.createObjectURL(
+      new Blob([snapshot], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `what-the-token-analysis-${
+      results.endDate ?? "empty"
+    }.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
 
+  async function handleOpenAnalysis(file: File) {
+    setErrorMsg("");
     try {
-      // Use our utility function to read the file with progress tracking
-      const text = await readFileWithProgress(file, (progress) => {
-        setReadProgress(progress);
-        setStatus(`Reading file: ${file.name} (${progress}%)`);
-      });
+      // Saved analyses already hold the aggregate, so nothing is re-tokenized
+      const { aggregator, metadata } = loadSnapshot(await file.text());
+      setResults(aggregator);
+      setResultsMetadata(metadata);
+      setIsOpenedSnapshot(true);
+      setComparisonSource(null);
+      setMergedSources(null);
+      // Left unset if unknown, which the snapshot actions point out
+      setTimeZone(metadata.timeZone);
+      setCurrentFiles([]);
+      setTokenCacheStats(null);
+      setDetectedFormat("");
+      setStatus(`Opened saved analysis: ${file.name}`);
+    } catch (err: any) {
+      console.error("Error opening saved analysis:", err);
+      setErrorMsg(err.message || "Unknown error occurred while opening file");
+    }
+  }
 
-      // Validate JSON format
-      try {
-        setStatus("Parsing JSON...");
-        const data = JSON.parse(text); // big in-memory parse
+  function handleCompareRanges(current: DayRange, baseline: DayRange) {
+    if (!results) return;
+    const source: ComparisonSource = { type: "ranges", current, baseline };
+    // Throws for ranges that can't be compared, which the controls display
+    buildComparison(results, source);
+    setComparisonSource(source);
+  }
 
-        // Validate OpenAI export format
-        const validationError = validateOpenAIExport(data);
-        if (validationError) {
-          throw new Error(validationError);
-        }
+  async function handleCompareAnalysis(file: File) {
+    // Throws for files that aren't saved analyses, which the controls display
+    const { aggregator, metadata } = loadSnapshot(await file.text());
+    const source: ComparisonSource = {
+      type: "analysis",
+      aggregator,
+      label: metadata.sourceFileName ?? file.name,
+    };
+    // Also throws for analyses that can't be re-bucketed into this timezone
+    if (results) buildComparison(results, source);
+    setComparisonSource(source);
+  }
+
+  function handleCancel() {
+    abortControllerRef.current?.abort();
+  }
+
+  async function handleTokenCachePersistenceChange(
+    persistent: boolean,
+    key = encryptionKeyRef.current ?? undefined
+  ) {
+    try {
+      const stats = await setWorkerTokenCachePersistence(persistent, key);
+      localStorage.setItem(TOKEN_CACHE_PERSISTENCE_KEY, String(persistent));
+      setTokenCachePersistent(persistent);
+      setTokenCacheStats((previous) => previous && stats);
+    } catch (err) {
+      console.error("Could not change token cache persistence:", err);
+    }
+  }
+
+  async function handleClearTokenCache() {
+    try {
+      setTokenCacheStats(await clearWorkerTokenCache());
+    } catch (err) {
+      console.error("Could not clear the token cache:", err);
+    }
+  }
+
+  function handleRememberAnalysisChange(remember: boolean) {
+    if (remember) {
+      localStorage.setItem(REMEMBER_ANALYSIS_KEY, "true");
+      setRememberAnalysis(true);
+    } else {
+      handleForgetAnalysis();
+    }
+  }
 
-        setStatus("Tokenizing & aggregating usage...");
-        // Process data using the new function, which returns the Aggregator
-        const usageAggregator = await processConversations(data);
+  async function handleForgetAnalysis() {
+    // Forgetting also stops remembering, so nothing is stored again
+    localStorage.removeItem(REMEMBER_ANALYSIS_KEY);
+    setRememberAnalysis(false);
+    try {
+      await forgetLocalAnalysis();
+      setStoredAnalysisBytes(null);
+    } catch (err) {
+      console.error("Could not forget the remembered analysis:", err);
+    }
+  }
+
+  /**
+   * Re-save a remembered analysis that isn't on display with another key (or
+   * none), which the effect storing the analysis on display won't do.
+   */
+  async function resaveStoredAnalysis(fromKey?: CryptoKey, toKey?: CryptoKey) {
+    if (results || storedAnalysisBytes === null) return;
+    const stored = await loadLocalAnalysis(fromKey);
+    if (stored) {
+      setStoredAnalysisBytes(
+        await saveLocalAnalysis(stored.aggregator, stored.metadata, toKey)
+      );
+    }
+  }
 
-        setResults(usageAggregator);
-        setStatus(`Done! Processed: ${file.name}`);
-      } catch (parseError: any) {
-        throw new Error(`Invalid JSON format: ${parseError.message}`);
+  async function handleSetUpEncryption(passphrase: string) {
+    const key = await setUpEncryption(passphrase);
+    await resaveStoredAnalysis(undefined, key);
+    encryptionKeyRef.current = key;
+    // The remembered analysis is re-saved encrypted once this updates
+    setEncryptionStatus("unlocked");
+    if (tokenCachePersistent) {
+      await handleTokenCachePersistenceChange(true, key);
+    } else {
+      // Counts persisted before persistence was turned off are encrypted too
+      try {
+        await encryptWorkerTokenCache(key);
+      } catch (err) {
+        console.error("Could not encrypt the stored token counts:", err);
+      }
+    }
+  }
+
+  async function handleUnlock(passphrase: string) {
+    // Throws for a wrong passphrase, which the lock displays
+    const key = await unlockEncryption(passphrase);
+    encryptionKeyRef.current = key;
+    setEncryptionStatus("unlocked");
+    await restoreDeviceData(key);
+  }
+
+  async function handleRemoveEncryption() {
+    try {
+      await resaveStoredAnalysis(encryptionKeyRef.current ?? undefined);
+      await removeEncryption();
+      encryptionKeyRef.current = null;
+      setEncryptionStatus("none");
+      if (tokenCachePersistent) {
+        await handleTokenCachePersistenceChange(true, undefined);
       }
+    } catch (err) {
+      console.error("Could not remove the passphrase:", err);
+    }
+  }
+
+  async function handleEraseDeviceData() {
+    localStorage.removeItem(TOKEN_CACHE_PERSISTENCE_KEY);
+    localStorage.removeItem(REMEMBER_ANALYSIS_KEY);
+    setTokenCachePersistent(false);
+    setRememberAnalysis(false);
+    try {
+      const [stats] = await Promise.all([
+        clearWorkerTokenCache(),
+        forgetLocalAnalysis(),
+        removeEncryption(),
+      ]);
+      setTokenCacheStats((previous) => previous && stats);
+      setStoredAnalysisBytes(null);
+      encryptionKeyRef.current = null;
+      setEncryptionStatus("none");
+    } catch (err) {
+      console.error("Could not erase the data stored on this device:", err);
+    }
+  }
+
+  async function processFiles(files: File[], mode: BranchMode) {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+    const fileNames = files.map((file) => file.name).join(", ");
+    // Name of the file being processed, as several are processed in turn
+    let fileName = files[0].name;
+
+    setIsProcessing(true);
+    setReadProgress(0);
+    setProcessingProgress(null);
+    setFileProgress(null);
+    setStatus(`Reading file: ${fileName}`);
+
+    try {
+      // Parsing, tokenizing and aggregating all happen in the pipeline
+      // worker, which streams progress back
+      const { aggregator, importerName, sources, duplicates, tokenCacheStats } =
+        await analyzeFilesInWorker(
+          files,
+          { ...DEFAULT_PROCESSING_OPTIONS, branchMode: mode, timeZone, signal },
+          {
+            onFileStarted: (index, name) => {
+              fileName = name;
+              setFileProgress({ index, count: files.length, name });
+              setReadProgress(0);
+              setProcessingProgress(null);
+              setDetectedFormat("");
+              setStatus(`Reading file: ${name}`);
+            },
+            onDetected: (name) => {
+              setDetectedFormat(name);
+              setStatus(`Tokenizing & aggregating usage: ${fileName}`);
+            },
+            onReadProgress: setReadProgress,
+            onProgress: setProcessingProgress,
+          }
+        );
+
+      setResults(aggregator);
+      setResultsMetadata({
+        sourceFileName: fileNames,
+        importerName,
+        processedAt: new Date().toISOString(),
+      });
+      setMergedSources(
+        sources ? { sources, duplicates: duplicates ?? 0 } : null
+      );
+      setTokenCacheStats(tokenCacheStats);
+      setStatus(`Done! Processed: ${fileNames} (${importerName})`);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        // Cancelled by the user: back to the upload state
+        console.log(`Cancelled processing ${fileNames}.`);
+        setCurrentFiles([]);
+        setResults(null);
+        setComparisonSource(null);
+        setStatus("");
+        setReadProgress(0);
+        setProcessingProgress(null);
+        setDetectedFormat("");
+        return;
+      }
       console.error("Error parsing or processing file:", err);
       setErrorMsg(
         err.message || "Unknown error occurred while processing file"
       );
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setFileProgress(null);
       setIsProcessing(false);
     }
   }
@@ -163,7 +612,7 @@ export default function HomePage() {
             <code className="text-[#E6DBFF] text-2xs bg-[#B08AFF]/20 px-1 rounded-xs !font-mono mx-1">
               conversations.json
             </code>{" "}
-            file — find at{" "}
+            file or the whole export .zip — find at{" "}
             <code className="text-[#E6DBFF] text-2xs bg-[#B08AFF]/20 px-1 rounded-xs !font-mono mx-1">
               chatgpt → settings → data controls → export
             </code>
@@ -207,6 +656,62 @@ export default function HomePage() {
           </p>
         </div>
 
+        <AnalysisOptions
+          branchMode={branchMode}
+          onBranchModeChange={handleBranchModeChange}
+          timeZone={timeZone}
+          onTimeZoneChange={handleTimeZoneChange}
+          disabled={isProcessing}
+        />
+
+        <SnapshotActions
+          canSave={!!results}
+          onSave={handleSaveAnalysis}
+          onOpen={handleOpenAnalysis}
+          openedSnapshot={results && isOpenedSnapshot ? resultsMetadata : null}
+          disabled={isProcessing}
+        />
+
+        {results && mergedSources && (
+          <MergeSummary
+            sources={mergedSources.sources}
+            duplicates={mergedSources.duplicates}
+          />
+        )}
+
+        {results && (
+          <ComparisonControls
+            startDate={results.startDate}
+            endDate={results.endDate}
+            comparison={comparison}
+            onCompareRanges={handleCompareRanges}
+            onCompareAnalysis={handleCompareAnalysis}
+            onStop={() => setComparisonSource(null)}
+            disabled={isProcessing}
+          />
+        )}
+
+        <RememberAnalysis
+          remember={rememberAnalysis}
+          onRememberChange={handleRememberAnalysisChange}
+          storedBytes={storedAnalysisBytes}
+          onForget={handleForgetAnalysis}
+          disabled={isProcessing || encryptionStatus === "locked"}
+        />
+
+        {(encryptionStatus !== "none" ||
+          rememberAnalysis ||
+          tokenCachePersistent) && (
+          <PassphraseLock
+            status={encryptionStatus}
+            onSetUp={handleSetUpEncryption}
+            onUnlock={handleUnlock}
+            onRemove={handleRemoveEncryption}
+            onErase={handleEraseDeviceData}
+            disabled={isProcessing}
+          />
+        )}
+
         {/* Replace basic input with new FileUpload component */}
         {!results && !errorMsg && (
           <FileUpload
@@ -214,6 +719,11 @@ export default function HomePage() {
             isProcessing={isProcessing}
             status={status}
             errorMsg={errorMsg}
+            detectedFormat={detectedFormat}
+            fileProgress={fileProgress}
+            readProgress={readProgress}
+            progress={processingProgress}
+            onCancel={handleCancel}
           />
         )}
 
@@ -229,6 +739,7 @@ export default function HomePage() {
                   onClick={() => {
                     setErrorMsg(""); // Clear the error to potentially allow re-upload
                     setResults(null);
+                    setComparisonSource(null);
                     setStatus("");
                   }}
                   className="mt-2 text-xs text-blue-400 hover:underline"
@@ -241,82 +752,130 @@ export default function HomePage() {
         )}
 
         {/* Results Section */}
-        {results && Object.keys(results.usageByDay).length > 0 && (
-          <div className="mt-8 space-y-6">
-            {/* Grid for Charts - Single Vertical Column */}
-            <div className="space-y-6 flex flex-col">
-              {/* Wrap SummaryStats in a Widget */}
-              <div className="w-full md:w-8/12">
-                <Widget
-                  title="usage vitals"
-                  description="quick numbers — cost, tokens, models"
-                >
-                  <SummaryStats data={results} />
-                </Widget>
-              </div>
+        {dashboardResults &&
+          Object.keys(dashboardResults.usageByDay).length > 0 && (
+            <div className="mt-8 space-y-6">
+              {/* Grid for Charts - Single Vertical Column */}
+              <div className="space-y-6 flex flex-col">
+                {/* SummaryStats, with how far its numbers can be trusted */}
+                <div className="w-full flex flex-col md:flex-row gap-6">
+                  <div className="w-full md:w-8/12">
+                    <Widget
+                      title="usage vitals"
+                      description="quick numbers — cost, tokens, models"
+                    >
+                      <SummaryStats
+                        data={dashboardResults}
+                        comparison={comparison?.baseline}
+                      />
+                    </Widget>
+                  </div>
+                  <div className="w-full md:w-4/12 md:max-w-sm">
+                    <Widget
+                      title="count accuracy"
+                      description="exact vs estimated vs defaulted tokens"
+                      className="h-full"
+                    >
+                      <TokenAccuracyReport
+                        accuracy={dashboardResults.tokenAccuracy}
+                      />
+                    </Widget>
+                  </div>
+                </div>
 
-              {/* Overall Summary Widget */}
-              <div className="w-full md:w-8/12">
-                <Widget
-                  title="token ledger"
-                  description="tabular summary — tokens, costs, interactions"
-                >
-                  <AggregatorSummaryTable aggregator={results} />
-                </Widget>
-              </div>
+                {/* Overall Summary Widget */}
+                <div className="w-full md:w-8/12">
+                  <Widget
+                    title="token ledger"
+                    description="tabular summary — tokens, costs, interactions"
+                  >
+                    <AggregatorSummaryTable
+                      aggregator={dashboardResults}
+                      comparison={comparison?.baseline}
+                    />
+                  </Widget>
+                </div>
 
-              {/* Calendar Heatmap */}
-              <div className="w-full md:w-8/12">
-                <Widget
-                  title="calendar glowmap"
-                  description="heatmap — daily usage intensity"
-                >
-                  <CalendarHeatmap aggregator={results} />
-                </Widget>
-              </div>
+                {/* Calendar Heatmap */}
+                <div className="w-full md:w-8/12">
+                  <Widget
+                    title="calendar glowmap"
+                    description="heatmap — daily usage intensity"
+                  >
+                    <CalendarHeatmap aggregator={dashboardResults} />
+                  </Widget>
+                </div>
 
-              {/* Stream Chart (Monthly) */}
-              <div className="w-full md:w-8/12">
-                <Widget
-                  title="timeline stream"
-                  description="stacked timeline — interactions over weeks"
-                >
-                  <StreamChart aggregator={results} />
-                </Widget>
-              </div>
+                {/* Stream Chart (Monthly) */}
+                <div className="w-full md:w-8/12">
+                  <Widget
+                    title="timeline stream"
+                    description="stacked timeline — interactions over weeks"
+                  >
+                    <StreamChart
+                      aggregator={dashboardResults}
+                      comparison={comparison?.overlay}
+                      comparisonLabel={comparison?.baselineLabel}
+                    />
+                  </Widget>
+                </div>
 
-              {/* Cumulative Treemap */}
-              <div className="w-full md:w-8/12">
-                <Widget
-                  title="model footprint"
-                  description="treemap — cumulative token distribution"
-                >
-                  <CumulativeTreemap aggregator={results} />
-                </Widget>
-              </div>
+                {/* Cumulative Treemap */}
+                <div className="w-full md:w-8/12">
+                  <Widget
+                    title="model footprint"
+                    description="treemap — cumulative token distribution"
+                  >
+                    <CumulativeTreemap aggregator={dashboardResults} />
+                  </Widget>
+                </div>
 
-              {/* New Bar Chart (Monthly) */}
-              <div className="w-full md:w-8/12">
-                <Widget
-                  title="usage strata"
-                  description="stacked bar chart — weekly model comparison"
-                >
-                  <ModelUsageBarChart aggregator={results} />
-                </Widget>
-              </div>
+                {/* New Bar Chart (Monthly) */}
+                <div className="w-full md:w-8/12">
+                  <Widget
+                    title="usage strata"
+                    description="stacked bar chart — weekly model comparison"
+                  >
+                    <ModelUsageBarChart
+                      aggregator={dashboardResults}
+                      comparison={comparison?.overlay}
+                      comparisonLabel={comparison?.baselineLabel}
+                    />
+                  </Widget>
+                </div>
 
-              {/* Day of Week Avg Activity (Ridgeline) */}
-              <div className="w-full md:w-8/12">
-                <Widget
-                  title="circadian ridge"
-                  description="hourly ridgeline chart — peak usage times"
-                >
-                  <DayOfWeekDistribution aggregator={results} />
-                </Widget>
+                {/* Day of Week Avg Activity (Ridgeline) */}
+                <div className="w-full md:w-8/12">
+                  <Widget
+                    title="circadian ridge"
+                    description="hourly ridgeline chart — peak usage times"
+                  >
+                    <DayOfWeekDistribution aggregator={dashboardResults} />
+                  </Widget>
+                </div>
+
+                {/* Tokenizer cache diagnostics */}
+                {tokenCacheStats && (
+                  <div className="w-full md:w-8/12">
+                    <Widget
+                      title="tokenizer cache"
+                      description="diagnostics — texts counted once, reused after"
+                    >
+                      <TokenCacheDiagnostics
+                        stats={tokenCacheStats}
+                        persistent={tokenCachePersistent}
+                        onPersistentChange={(persistent) =>
+                          handleTokenCachePersistenceChange(persistent)
+                        }
+                        onClear={handleClearTokenCache}
+                        disabled={isProcessing || encryptionStatus === "locked"}
+                      />
+                    </Widget>
+                  </div>
+                )}
               </div>
             </div>
-          </div>
-        )}
+          )}
       </div>
     </div>
   );
@@ -0,0 +1,57 @@
+import "fake-indexeddb/auto";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { chatGPTConversation } from "../test/fixtures";
+import {
+  forgetLocalAnalysis,
+  loadLocalAnalysis,
+  saveLocalAnalysis,
+} from "./analysisStorage";
+import {
+  Aggregator,
+  processConversations,
+  setTokenCounter,
+} from "./calculator";
+import { normalizeChatGPTConversation } from "./importers/chatgpt";
+
+let aggregator: Aggregator;
+
+beforeAll(async () => {
+  setTokenCounter((texts) => texts.map((text) => text.split(" ").length));
+  aggregator = await processConversations(
+    [
+      normalizeChatGPTConversation(
+        chatGPTConversation("a", [
+          { prompt: "one two", response: "three", time: 1700000000 },
+        ])
+      )!,
+    ],
+    { branchMode: "all", timeZone: "UTC" }
+  );
+});
+
+beforeEach(() => forgetLocalAnalysis());
+
+describe("remembered analysis", () => {
+  it("is null until an analysis is saved", async () => {
+    expect(await loadLocalAnalysis()).toBeNull();
+  });
+
+  it("loads the latest saved analysis", async () => {
+    await saveLocalAnalysis(aggregator, { sourceFileName: "old.zip" });
+    const size = await saveLocalAnalysis(aggregator, {
+      sourceFileName: "new.zip",
+    });
+
+    const loaded = await loadLocalAnalysis();
+    expect(loaded?.aggregator).toEqual(aggregator);
+    expect(loaded?.metadata.sourceFileName).toBe("new.zip");
+    expect(loaded?.size).toBe(size);
+    expect(size).toBeGreaterThan(0);
+  });
+
+  it("is gone once forgotten", async () => {
+    await saveLocalAnalysis(aggregator);
+    await forgetLocalAnalysis();
+    expect(await loadLocalAnalysis()).toBeNull();
+  });
+});
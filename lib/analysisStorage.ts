@@ -0,0 +1,127 @@
+/**
+ * @file analysisStorage.ts
+ *
+ * Keeps the latest analysis in IndexedDB for users who opt in to having it
+ * remembered on this device, so they land straight on their dashboard when
+ * they come back. Only the aggregate is stored, as a snapshot (see
+ * `snapshot.ts`); the conversations themselves never are. With a passphrase
+ * (see `encryption.ts`), the snapshot is stored encrypted.
+ */
+
+import { Aggregator } from "./calculator";
+import { decryptText, EncryptedPayload, encryptText } from "./encryption";
+import {
+  openDatabase,
+  requestToPromise,
+  STORES,
+  transactionDone,
+} from "./indexedDB";
+import {
+  LoadedSnapshot,
+  loadSnapshot,
+  saveSnapshot,
+  SnapshotMetadata,
+} from "./snapshot";
+
+/** Key of the remembered analysis; only the latest one is kept */
+const LATEST_ANALYSIS_KEY = "latest";
+
+/** A remembered analysis, as stored */
+interface StoredAnalysis {
+  /** The analysis as snapshot text, unless encrypted */
+  snapshot?: string;
+  /** The snapshot text, encrypted with the passphrase key */
+  encryptedSnapshot?: EncryptedPayload;
+  /** When it was stored, as an ISO 8601 string */
+  savedAt: string;
+}
+
+/** A remembered analysis, ready to be displayed */
+export interface LocalAnalysis extends LoadedSnapshot {
+  /** Size of the stored snapshot in bytes */
+  size: number;
+  /** When it was stored, as an ISO 8601 string */
+  savedAt: string;
+}
+
+/**
+ * Remember an analysis on this device, replacing the one stored before.
+ *
+ * @param aggregator The aggregate to remember
+ * @param metadata   What is known about its source (see `createSnapshot`)
+ * @param key        Key to encrypt it with, if protected by a passphrase
+ * @returns Size of the stored snapshot in bytes
+ * @throws Error if IndexedDB is unavailable or the analysis can't be stored
+ */
+export async function saveLocalAnalysis(
+  aggregator: Aggregator,
+  metadata: SnapshotMetadata = {},
+  key?: CryptoKey
+): Promise<number> {
+  const snapshot = saveSnapshot(aggregator, metadata);
+  const savedAt = new Date().toISOString();
+  const stored: StoredAnalysis = key
+    ? { encryptedSnapshot: await encryptText(key, snapshot), savedAt }
+    : { snapshot, savedAt };
+
+  const database = await openDatabase();
+  const transaction = database.transaction(STORES.analyses, "readwrite");
+  transaction.objectStore(STORES.analyses).put(stored, LATEST_ANALYSIS_KEY);
+  await transactionDone(transaction);
+  return getStoredSize(stored);
+}
+
+/**
+ * Load the analysis remembered on this device.
+ *
+ * @param key Key to decrypt it with, if protected by a passphrase
+ * @returns The analysis, or null if none is stored
+ * @throws Error if IndexedDB is unavailable, the analysis is encrypted and
+ *   `key` can't decrypt it, or the stored snapshot is unusable
+ */
+export async function loadLocalAnalysis(
+  key?: CryptoKey
+): Promise<LocalAnalysis | null> {
+  const database = await openDatabase();
+  const stored: StoredAnalysis | undefined = await requestToPromise(
+    database
+      .transaction(STORES.analyses, "readonly")
+      .objectStore(STORES.analyses)
+      .get(LATEST_ANALYSIS_KEY)
+  );
+  if (!stored) return null;
+
+  let snapshot = stored.snapshot;
+  if (stored.encryptedSnapshot) {
+    if (!key) {
+      throw new Error("The remembered analysis is protected by a passphrase.");
+    }
+    snapshot = await decryptText(key, stored.encryptedSnapshot);
+  }
+  return {
+    ...loadSnapshot(snapshot ?? ""),
+    size: getStoredSize(stored),
+    savedAt: stored.savedAt,
+  };
+}
+
+/**
+ * Delete the analysis remembered on this device.
+ * @throws Error if IndexedDB is unavailable
+ */
+export async function forgetLocalAnalysis(): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(STORES.analyses, "readwrite");
+  transaction.objectStore(STORES.analyses).delete(LATEST_ANALYSIS_KEY);
+  await transactionDone(transaction);
+}
+
+/**
+ * Get the size of a stored analysis in bytes.
+ */
+function getStoredSize(stored: StoredAnalysis): number {
+  if (stored.encryptedSnapshot) {
+    return stored.encryptedSnapshot.data.byteLength;
+  }
+  return new Blob([stored.snapshot ?? ""]).size;
+}
@@ -0,0 +1,656 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { chatGPTConversation } from "../test/fixtures";
+import {
+  Aggregator,
+  applyConversations,
+  DEFAULT_ENCODING,
+  getEncodingForModel,
+  getTokenizerPoolSize,
+  isAbortError,
+  mergeAggregators,
+  processConversations,
+  ProcessingOptions,
+  ProcessingProgress,
+  rebucketAggregator,
+  setTokenCounter,
+  terminateTokenizerWorker,
+  TokenizerEncoding,
+} from "./calculator";
+import { normalizeChatGPTConversation } from "./importers/chatgpt";
+import { clearTokenCache } from "./tokenCache";
+
+/** Texts passed to the token counter, per call */
+let counterCalls: { texts: string[]; encoding: TokenizerEncoding }[] = [];
+
+beforeEach(async () => {
+  await clearTokenCache();
+  counterCalls = [];
+  // One token per word keeps the expected counts easy to work out
+  setTokenCounter((texts, encoding) => {
+    counterCalls.push({ texts, encoding });
+    return texts.map((text) => text.split(/\s+/).filter(Boolean).length);
+  });
+});
+
+const OPTIONS: ProcessingOptions = { branchMode: "all", timeZone: "UTC" };
+
+/**
+ * Normalize ChatGPT export conversations and process them.
+ */
+function process(
+  conversations: any[],
+  options: Partial<ProcessingOptions> = {}
+): Promise<Aggregator> {
+  return processConversations(
+    conversations.map((conversation) =>
+      normalizeChatGPTConversation(conversation)
+    ) as any[],
+    { ...OPTIONS, ...options }
+  );
+}
+
+/**
+ * A conversation whose first response was regenerated: the prompt has two
+ * responses, and the regenerated one is the current node.
+ */
+function regeneratedConversation() {
+  const conversation = chatGPTConversation("r", [
+    { prompt: "one two three", response: "four five", time: 1700000000 },
+  ]);
+  conversation.mapping["r-u0"].children.push("r-a0b");
+  conversation.mapping["r-a0b"] = {
+    id: "r-a0b",
+    parent: "r-u0",
+    children: [],
+    message: {
+      id: "r-a0b",
+      create_time: 1700000100,
+      author: { role: "assistant" },
+      end_turn: true,
+      metadata: { model_slug: "gpt-4o" },
+      content: { content_type: "text", parts: ["six seven eight nine"] },
+    },
+  };
+  conversation.current_node = "r-a0b";
+  return conversation;
+}
+
+describe("branches", () => {
+  it("bills every branch with the context of its own history", async () => {
+    const aggregator = await process([regeneratedConversation()]);
+    const [{ usage }] = aggregator.conversations!;
+    expect(usage.map(({ output_tokens }) => output_tokens)).toEqual([2, 4]);
+    // Each response is billed for the prompt, not for the other response
+    expect(usage.map(({ input_tokens }) => input_tokens)).toEqual([5, 7]);
+  });
+
+  it("bills only the active path in active mode", async () => {
+    const aggregator = await process([regeneratedConversation()], {
+      branchMode: "active",
+    });
+    const [{ usage }] = aggregator.conversations!;
+    expect(usage).toEqual([
+      {
+        timestamp: 1700000100,
+        model: "gpt-4o",
+        input_tokens: 7,
+        output_tokens: 4,
+      },
+    ]);
+  });
+
+  it("carries the context of earlier turns into later ones", async () => {
+    const aggregator = await process([
+      chatGPTConversation("a", [
+        { prompt: "one two", response: "three", time: 1700000000 },
+        { prompt: "four", response: "five six", time: 1700000100 },
+      ]),
+    ]);
+    const [{ usage }] = aggregator.conversations!;
+    expect(usage.map(({ input_tokens }) => input_tokens)).toEqual([3, 6]);
+    expect(usage.map(({ output_tokens }) => output_tokens)).toEqual([1, 2]);
+  });
+});
+
+describe("message timestamps", () => {
+  // 2023-11-14 22:13:20 UTC, and the same time two days later
+  const DAY_1 = 1700000000;
+  const DAY_3 = DAY_1 + 2 * 86400;
+
+  it("buckets each turn on the day and hour of its own messages", async () => {
+    const aggregator = await process([
+      chatGPTConversation("a", [
+        { prompt: "one two", response: "three", time: DAY_1 },
+        { prompt: "four", response: "five six", time: DAY_3 },
+      ]),
+    ]);
+
+    expect(Object.keys(aggregator.usageByDay).sort()).toEqual([
+      "2023-11-14",
+      "2023-11-16",
+    ]);
+    const day1 = aggregator.usageByDay["2023-11-14"];
+    const day3 = aggregator.usageByDay["2023-11-16"];
+    expect(day1.total.message_count).toBe(1);
+    expect(day1.total.output_tokens).toBe(1);
+    expect(day1.total.hours[22].message_count).toBe(1);
+    expect(day3.total.output_tokens).toBe(2);
+    // The conversation itself is counted on the day it was created
+    expect(day1.total.conversation_count).toBe(1);
+    expect(day3.total.conversation_count).toBe(0);
+    expect(aggregator.startDate).toBe("2023-11-14");
+    expect(aggregator.endDate).toBe("2023-11-16");
+  });
+
+  it("times messages without a create_time by the message before them", async () => {
+    const conversation = chatGPTConversation("a", [
+      { prompt: "one", response: "two", time: DAY_1 },
+      { prompt: "three", response: "four", time: DAY_3 },
+    ]);
+    delete conversation.mapping["a-u1"].message.create_time;
+    delete conversation.mapping["a-a1"].message.create_time;
+
+    const aggregator = await process([conversation]);
+    const [{ usage }] = aggregator.conversations!;
+    expect(usage.map(({ timestamp }) => timestamp)).toEqual([
+      DAY_1 + 10,
+      DAY_1 + 10,
+    ]);
+  });
+
+  it("falls back to the conversation's creation time", async () => {
+    const conversation = chatGPTConversation("a", [
+      { prompt: "one", response: "two", time: DAY_3 },
+    ]);
+    conversation.create_time = DAY_1;
+    delete conversation.mapping["a-u0"].message.create_time;
+    delete conversation.mapping["a-a0"].message.create_time;
+
+    const aggregator = await process([conversation]);
+    expect(aggregator.conversations![0].usage[0].timestamp).toBe(DAY_1);
+  });
+});
+
+describe("timezones", () => {
+  const conversations = [
+    chatGPTConversation("a", [
+      { prompt: "one two", response: "three", time: 1700000000 },
+    ]),
+  ];
+
+  it("buckets days and hours in the chosen timezone", async () => {
+    const aggregator = await process(conversations, {
+      timeZone: "Asia/Kolkata",
+    });
+    expect(aggregator.timeZone).toBe("Asia/Kolkata");
+    expect(Object.keys(aggregator.usageByDay)).toEqual(["2023-11-15"]);
+    expect(
+      aggregator.usageByDay["2023-11-15"].total.hours[3].message_count
+    ).toBe(1);
+  });
+
+  it("re-buckets into another timezone without re-tokenizing", async () => {
+    const utc = await process(conversations);
+    const callsBefore = counterCalls.length;
+
+    const rebucketed = rebucketAggregator(utc, "Asia/Kolkata");
+    expect(counterCalls).toHaveLength(callsBefore);
+    expect(rebucketed.usageByDay).toEqual(
+      (await process(conversations, { timeZone: "Asia/Kolkata" })).usageByDay
+    );
+    expect(rebucketed.startDate).toBe("2023-11-15");
+  });
+});
+
+describe("cancellation", () => {
+  const conversations = Array.from({ length: 50 }, (_, i) =>
+    chatGPTConversation(`c${i}`, [
+      { prompt: `prompt ${i}`, response: `response ${i}`, time: 1700000000 },
+    ])
+  );
+
+  it("rejects with an abort error when already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await process(conversations, {
+      signal: controller.signal,
+    }).catch((error) => error);
+    expect(isAbortError(error)).toBe(true);
+    expect(counterCalls).toHaveLength(0);
+  });
+
+  it("stops reading and tokenizing once aborted", async () => {
+    const controller = new AbortController();
+    let conversationsRead = 0;
+    async function* stream() {
+      for (const conversation of conversations) {
+        conversationsRead++;
+        yield normalizeChatGPTConversation(conversation)!;
+      }
+    }
+    setTokenCounter((texts) => {
+      controller.abort();
+      return texts.map(() => 1);
+    });
+
+    const error = await processConversations(stream(), {
+      ...OPTIONS,
+      signal: controller.signal,
+    }).catch((error) => error);
+    expect(isAbortError(error)).toBe(true);
+    expect(conversationsRead).toBeLessThan(conversations.length);
+  });
+
+  it("tells abort errors from other failures", () => {
+    expect(isAbortError(new DOMException("Aborted", "AbortError"))).toBe(true);
+    expect(isAbortError(new Error("Aborted"))).toBe(false);
+    expect(isAbortError(null)).toBe(false);
+  });
+});
+
+describe("progress", () => {
+  it("reports the conversations done and the message tokens counted", async () => {
+    const reports: ProcessingProgress[] = [];
+    await process(
+      [
+        chatGPTConversation("a", [
+          { prompt: "one two", response: "three", time: 1700000000 },
+          { prompt: "four", response: "five six", time: 1700000100 },
+        ]),
+      ],
+      { onProgress: (progress) => reports.push(progress) }
+    );
+
+    expect(reports[0]).toMatchObject({
+      conversationsDone: 0,
+      totalConversations: 1,
+      tokensCounted: 0,
+    });
+    // Each message once: 2 + 1 + 1 + 2, although 12 input and output tokens
+    // are billed as the context is re-sent on the second turn
+    expect(reports[reports.length - 1]).toMatchObject({
+      conversationsDone: 1,
+      totalConversations: 1,
+      isTotalEstimated: false,
+      tokensCounted: 6,
+    });
+  });
+
+  it("estimates the total of streamed input from the source progress", async () => {
+    let read = 0;
+    async function* stream() {
+      for (let i = 0; i < 4; i++) {
+        read++;
+        yield normalizeChatGPTConversation(
+          chatGPTConversation(`c${i}`, [
+            { prompt: "one", response: "two", time: 1700000000 },
+          ])
+        )!;
+      }
+    }
+    const reports: ProcessingProgress[] = [];
+    await processConversations(stream(), {
+      ...OPTIONS,
+      // As if the four conversations were the first half of the file
+      getSourceProgress: () => read / 8,
+      onProgress: (progress) => reports.push(progress),
+    });
+
+    expect(reports[reports.length - 1]).toMatchObject({
+      conversationsDone: 4,
+      totalConversations: 8,
+      isTotalEstimated: true,
+    });
+    expect(reports[reports.length - 1].etaMs).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe("batched counting", () => {
+  it("counts each conversation's texts in one request", async () => {
+    const aggregator = await process([
+      chatGPTConversation("a", [
+        { prompt: "hello there", response: "hi", time: 1700000000 },
+        { prompt: "hello there", response: "how are you", time: 1700000100 },
+      ]),
+    ]);
+
+    expect(counterCalls).toHaveLength(1);
+    // The repeated prompt is only tokenized once, but billed on both turns
+    expect(counterCalls[0].texts).toEqual(["hello there", "hi", "how are you"]);
+    const [{ usage }] = aggregator.conversations!;
+    expect(usage.map(({ output_tokens }) => output_tokens)).toEqual([1, 3]);
+    expect(usage.map(({ input_tokens }) => input_tokens)).toEqual([3, 8]);
+  });
+
+  it("doesn't tokenize texts counted before again", async () => {
+    const conversation = chatGPTConversation("a", [
+      { prompt: "hello there", response: "hi", time: 1700000000 },
+    ]);
+    const first = await process([conversation]);
+    counterCalls = [];
+    const second = await process([conversation]);
+
+    expect(counterCalls).toEqual([]);
+    expect(second.conversations).toEqual(first.conversations);
+  });
+});
+
+describe("tokenizer pool", () => {
+  it.each([
+    [16, 8],
+    [4, 3],
+    [1, 1],
+  ])("runs %i cores with %i workers", (hardwareConcurrency, size) => {
+    vi.stubGlobal("navigator", { hardwareConcurrency });
+    expect(getTokenizerPoolSize()).toBe(size);
+  });
+
+  it("assumes two cores when the count is unknown", () => {
+    vi.stubGlobal("navigator", {});
+    expect(getTokenizerPoolSize()).toBe(1);
+  });
+});
+
+describe("encodings", () => {
+  it.each([
+    ["gpt-4", "cl100k_base"],
+    ["gpt-4-turbo", "cl100k_base"],
+    ["gpt-3.5-turbo", "cl100k_base"],
+    ["text-davinci-002", "cl100k_base"],
+    ["gpt-4o", "o200k_base"],
+    ["gpt-4o-mini", "o200k_base"],
+    ["gpt-4.1", "o200k_base"],
+    ["gpt-4-5", "o200k_base"],
+    ["o3", "o200k_base"],
+    ["gpt-5", "o200k_base"],
+  ])("counts %s with %s", (model, encoding) => {
+    expect(getEncodingForModel(model)).toBe(encoding);
+  });
+
+  it("uses the default encoding for unknown models", () => {
+    expect(getEncodingForModel("claude-sonnet-4")).toBe(DEFAULT_ENCODING);
+  });
+
+  it("counts each message with the encoding of its model", async () => {
+    await process([
+      chatGPTConversation("a", [
+        { prompt: "one", response: "two", model: "gpt-4", time: 1700000000 },
+        { prompt: "three", response: "four", time: 1700000100 },
+      ]),
+    ]);
+
+    // The prompts take the model of the response before them, or else after
+    expect(
+      [...counterCalls].sort((a, b) => a.encoding.localeCompare(b.encoding))
+    ).toEqual([
+      { texts: ["one", "two", "three"], encoding: "cl100k_base" },
+      { texts: ["four"], encoding: "o200k_base" },
+    ]);
+  });
+});
+
+/**
+ * A tokenizer worker that counts a token per word, but fails on the texts
+ * containing "broken" and estimates them as a token per four characters.
+ */
+class PartlyFailingWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor() {
+    setTimeout(() => this.onmessage?.({ data: { type: "WORKER_READY" } }));
+  }
+
+  postMessage({ id, texts }: { id: number; texts: string[] }) {
+    const estimated = texts.map((text) => text.includes("broken"));
+    const counts = texts.map((text, i) =>
+      estimated[i] ? Math.ceil(text.length / 4) : text.split(" ").length
+    );
+    setTimeout(() =>
+      this.onmessage?.({
+        data: {
+          id,
+          counts,
+          estimated,
+          error: "Tokenization failed",
+          fallbackUsed: true,
+        },
+      })
+    );
+  }
+
+  terminate() {}
+}
+
+describe("token accuracy", () => {
+  function conversationWithImage(image: Record<string, unknown>) {
+    const conversation = chatGPTConversation("i", [
+      { prompt: "look", response: "nice", time: 1700000000 },
+    ]);
+    conversation.mapping["i-u0"].message.content = {
+      content_type: "multimodal_text",
+      parts: [
+        "look",
+        {
+          content_type: "image_asset_pointer",
+          asset_pointer: "file-service://file-1",
+          ...image,
+        },
+      ],
+    };
+    return conversation;
+  }
+
+  it("counts tokenized texts as exact", async () => {
+    const aggregator = await process([
+      chatGPTConversation("a", [
+        { prompt: "one two", response: "three", time: 1700000000 },
+      ]),
+    ]);
+    expect(aggregator.tokenAccuracy).toEqual({
+      exact: 3,
+      estimated: 0,
+      defaulted: 0,
+    });
+  });
+
+  it("counts texts as estimated without a tokenizer", async () => {
+    setTokenCounter(null);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const aggregator = await process([
+      chatGPTConversation("a", [
+        { prompt: "one two", response: "three", time: 1700000000 },
+      ]),
+    ]);
+    // A token per four characters, rounded up
+    expect(aggregator.tokenAccuracy).toEqual({
+      exact: 0,
+      estimated: 4,
+      defaulted: 0,
+    });
+  });
+
+  it("counts only the texts the tokenizer failed on as estimated", async () => {
+    setTokenCounter(null);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("Worker", PartlyFailingWorker);
+    try {
+      const aggregator = await process([
+        chatGPTConversation("a", [
+          { prompt: "one two", response: "three broken", time: 1700000000 },
+        ]),
+      ]);
+      expect(aggregator.tokenAccuracy).toEqual({
+        exact: 2,
+        estimated: 3,
+        defaulted: 0,
+      });
+    } finally {
+      terminateTokenizerWorker();
+    }
+  });
+
+  it("caches the exact counts of a batch with estimated ones", async () => {
+    setTokenCounter(null);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("Worker", PartlyFailingWorker);
+    const posted: string[][] = [];
+    const postMessage = PartlyFailingWorker.prototype.postMessage;
+    vi.spyOn(PartlyFailingWorker.prototype, "postMessage").mockImplementation(
+      function (this: PartlyFailingWorker, message) {
+        posted.push(message.texts);
+        postMessage.call(this, message);
+      }
+    );
+    const conversation = chatGPTConversation("a", [
+      { prompt: "one two", response: "three broken", time: 1700000000 },
+    ]);
+    try {
+      await process([conversation]);
+      posted.length = 0;
+      await process([conversation]);
+    } finally {
+      terminateTokenizerWorker();
+    }
+    // Only the estimate is tokenized again
+    expect(posted).toEqual([["three broken"]]);
+  });
+
+  it("counts images of known size as exact", async () => {
+    const aggregator = await process([
+      conversationWithImage({ width: 512, height: 512 }),
+    ]);
+    // One tile of 170 tokens, on a base of 85
+    expect(aggregator.tokenAccuracy).toEqual({
+      exact: 257,
+      estimated: 0,
+      defaulted: 0,
+    });
+  });
+
+  it("counts images of unknown size as defaulted", async () => {
+    const aggregator = await process([conversationWithImage({})]);
+    // Assumed to be 1024x1024: four tiles
+    expect(aggregator.tokenAccuracy).toEqual({
+      exact: 2,
+      estimated: 0,
+      defaulted: 765,
+    });
+  });
+});
+
+/** Two copies of one conversation, from successive exports */
+const older = chatGPTConversation("a", [
+  { prompt: "one two", response: "three", time: 1700000000 },
+]);
+const newer = chatGPTConversation("a", [
+  { prompt: "one two", response: "three", time: 1700000000 },
+  { prompt: "four", response: "five six", time: 1700100000 },
+]);
+const other = chatGPTConversation("b", [
+  { prompt: "seven", response: "eight", time: 1700200000 },
+]);
+
+describe("merging", () => {
+  it("counts a conversation found in several aggregates once", async () => {
+    const first = await process([older, other]);
+    const second = await process([older, other]);
+    const { aggregator, stats } = mergeAggregators([first, second]);
+
+    // On a tie, the later aggregate's copy is kept
+    expect(stats).toEqual({
+      conversations: [2, 2],
+      kept: [0, 2],
+      duplicates: 2,
+    });
+    expect(aggregator.usageByDay).toEqual(first.usageByDay);
+    expect(aggregator.totalCostAllModels).toBeCloseTo(
+      first.totalCostAllModels!
+    );
+  });
+
+  it("keeps the copy updated last", async () => {
+    const { aggregator, stats } = mergeAggregators([
+      await process([newer]),
+      await process([older, other]),
+    ]);
+
+    expect(stats).toEqual({
+      conversations: [1, 2],
+      kept: [1, 1],
+      duplicates: 1,
+    });
+    expect(aggregator.usageByDay).toEqual(
+      (await process([newer, other])).usageByDay
+    );
+  });
+
+  it("rejects aggregates without per-conversation usage", async () => {
+    const aggregator = await process([older]);
+    expect(() =>
+      mergeAggregators([{ ...aggregator, conversations: undefined }])
+    ).toThrow("no per-conversation usage");
+  });
+});
+
+describe("applying a newer export", () => {
+  function apply(aggregator: Aggregator, conversations: any[]) {
+    return applyConversations(
+      aggregator,
+      conversations.map(
+        (conversation) => normalizeChatGPTConversation(conversation)!
+      ),
+      OPTIONS
+    );
+  }
+
+  const added = chatGPTConversation("c", [
+    { prompt: "nine", response: "ten", time: 1700300000 },
+  ]);
+
+  it("gives the aggregate of analysing the newer export", async () => {
+    const aggregator = await process([older, other]);
+    counterCalls = [];
+    const stats = await apply(aggregator, [newer, other, added]);
+
+    expect(stats).toEqual({ added: 1, updated: 1, unchanged: 1 });
+    // Only the new turn and the new conversation are tokenized
+    expect(counterCalls.flatMap(({ texts }) => texts).sort()).toEqual([
+      "five six",
+      "four",
+      "nine",
+      "ten",
+    ]);
+    const fresh = await process([newer, other, added]);
+    expect(aggregator.usageByDay).toEqual(fresh.usageByDay);
+    expect(aggregator.totalCostAllModels).toBeCloseTo(
+      fresh.totalCostAllModels!
+    );
+    expect(aggregator.conversations).toHaveLength(3);
+  });
+
+  it("leaves the aggregate as it is when applied again", async () => {
+    const aggregator = await process([older, other]);
+    const usageByDay = structuredClone(aggregator.usageByDay);
+    const stats = await apply(aggregator, [older, other]);
+
+    expect(stats).toEqual({ added: 0, updated: 0, unchanged: 2 });
+    expect(aggregator.usageByDay).toEqual(usageByDay);
+  });
+
+  it.each([
+    ["older", [older, newer]],
+    ["newer", [newer, older]],
+  ])(
+    "adds a new conversation found twice once, the %s copy first",
+    async (_first, conversations) => {
+      const aggregator = await process([other]);
+      const stats = await apply(aggregator, conversations);
+
+      expect(stats).toEqual({ added: 1, updated: 0, unchanged: 1 });
+      expect(aggregator.conversations).toHaveLength(2);
+      expect(aggregator.usageByDay).toEqual(
+        (await process([newer, other])).usageByDay
+      );
+    }
+  );
+});
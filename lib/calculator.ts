@@ -11,6 +11,14 @@
  * minor cleanup, and edge-case handling have been added where appropriate.
  */
 
+import type { NormalizedConversation } from "./importers/types";
+import { getZonedDayAndHour } from "./timezone";
+import {
+  getTokenCacheKey,
+  lookupTokenCount,
+  storeTokenCount,
+} from "./tokenCache";
+
 //
 // ─── MODEL COST DEFINITIONS ─────────────────────────────────────────────────────
 //
@@ -42,6 +50,30 @@ export const MODEL_COSTS: Record<string, { input: number; output: number }> = {
   auto: { input: 5.0, output: 15.0 },
   research: { input: 1.1, output: 4.4 },
 
+  // Anthropic models (Claude.ai exports). Claude's tokenizer is not public, so
+  // these are counted with the same tokenizer as OpenAI models.
+  "claude-2": { input: 8.0, output: 24.0 },
+  "claude-2.1": { input: 8.0, output: 24.0 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-sonnet": { input: 3.0, output: 15.0 },
+  "claude-3-opus": { input: 15.0, output: 75.0 },
+  "claude-3-5-haiku": { input: 0.8, output: 4.0 },
+  "claude-3-5-sonnet": { input: 3.0, output: 15.0 },
+  "claude-3-7-sonnet": { input: 3.0, output: 15.0 },
+  "claude-sonnet-4": { input: 3.0, output: 15.0 },
+  "claude-sonnet-4-5": { input: 3.0, output: 15.0 },
+  "claude-opus-4": { input: 15.0, output: 75.0 },
+  "claude-opus-4-1": { input: 15.0, output: 75.0 },
+
+  // Google models (Takeout Gemini Apps activity), also counted with the
+  // OpenAI tokenizer since Gemini's is not available in the browser.
+  "gemini-1.0-pro": { input: 0.5, output: 1.5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5.0 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10.0 },
+
   // Image models have a flat per-image cost. See IMAGE_MODEL_COSTS below.
   "dalle-2": { input: 0, output: 0 },
   "dalle-3": { input: 0, output: 0 },
@@ -58,172 +90,389 @@ export const IMAGE_MODEL_COSTS: Record<string, number> = {
   "gpt-image-1": 0.167,
 };
 
+/**
+ * Version of the prices above, recorded in saved snapshots (see `snapshot.ts`)
+ * so it's clear which prices their costs were calculated with. Update it
+ * whenever `MODEL_COSTS` or `IMAGE_MODEL_COSTS` change.
+ */
+export const PRICING_VERSION = "2025-10";
+
 //
-// ─── WEB WORKER SETUP FOR TOKENIZATION (JS-TIKTOKEN) ───────────────────────────
+// ─── WEB WORKER POOL FOR TOKENIZATION (JS-TIKTOKEN) ────────────────────────────
 //
 
-let worker: Worker | null = null; // Worker instance
-let workerReady = false; // Whether the worker is ready for requests
+/** Tiktoken encodings the tokenizer worker can count with */
+export type TokenizerEncoding = "o200k_base" | "cl100k_base";
+
+/** Encoding of GPT-4o and later models, used when the model is unknown */
+export const DEFAULT_ENCODING: TokenizerEncoding = "o200k_base";
+
+/**
+ * Get the encoding a model's tokenizer uses. GPT-4 (apart from 4o, 4.1 and
+ * 4.5), GPT-3.5 and the davinci models use `cl100k_base`; everything else,
+ * including non-OpenAI models, is counted with `o200k_base`.
+ *
+ * @param modelSlug Model slug, e.g. "gpt-4-turbo"
+ */
+export function getEncodingForModel(modelSlug: string): TokenizerEncoding {
+  const slug = modelSlug.toLowerCase();
+  if (
+    slug.startsWith("gpt-3.5") ||
+    slug.startsWith("text-davinci") ||
+    /^gpt-4(?!o|[.-][15]\b)/.test(slug)
+  ) {
+    return "cl100k_base";
+  }
+  return DEFAULT_ENCODING;
+}
+
+/** Upper bound on the number of tokenizer workers, whatever the core count */
+const MAX_TOKENIZER_WORKERS = 8;
+/** Failures in a row after which a crashed worker is no longer restarted */
+const MAX_WORKER_RESTARTS = 3;
+
+/** Token counts of a batch of texts */
+interface TokenCountResult {
+  counts: number[];
+  /**
+   * Whether each count is an estimate, because the tokenizer was unavailable
+   * or failed on that text
+   */
+  estimated: boolean[];
+}
+
+/** A token count request, waiting for or being processed by a worker */
+interface TokenizerRequest {
+  id: number;
+  texts: string[];
+  encoding: TokenizerEncoding;
+  resolve: (result: TokenCountResult) => void;
+  reject: (reason?: any) => void;
+}
+
+/** A worker of the tokenizer pool and the requests assigned to it */
+interface PooledWorker {
+  worker: Worker;
+  ready: boolean; // Whether the worker is ready for requests
+  startTime: number; // When the worker was created (for performance logging)
+  // Requests posted to the worker, by ID
+  inFlight: Map<number, TokenizerRequest>;
+  // Requests assigned to the worker before it was ready
+  queued: TokenizerRequest[];
+  // Failures since the worker (or the one it replaced) last answered
+  failures: number;
+}
+
+// Pool slots; a slot is null once its worker has failed too often to restart
+let workerPool: (PooledWorker | null)[] | null = null;
 let nextRequestId = 0; // Unique ID generator for worker requests
+// IDs of requests that were cancelled after being posted; their responses are ignored
+const cancelledRequests = new Set<number>();
+
+/**
+ * Counts the tokens of a batch of texts without the worker pool, e.g. with
+ * `countTextsInProcess` from `tokenizer.ts`.
+ */
+export type TokenCounter = (
+  texts: string[],
+  encoding: TokenizerEncoding
+) => number[] | Promise<number[]>;
 
-// Maps request IDs to the resolve/reject callbacks of the promise waiting for token count
-const pendingRequests = new Map<number, (value: number) => void>();
-const errorCallbacks = new Map<number, (reason?: any) => void>();
+// Token counter used instead of the worker pool, if set
+let inProcessTokenCounter: TokenCounter | null = null;
+
+/**
+ * Count tokens with the given function rather than in Web Workers, for
+ * environments that don't have them (such as Node). Without a counter, token
+ * counts are estimated there. Pass null to go back to the worker pool.
+ */
+export function setTokenCounter(counter: TokenCounter | null) {
+  inProcessTokenCounter = counter;
+}
 
-// Track when the worker started (for performance logging)
-let workerStartTime: number | null = null;
+/**
+ * Get the number of tokenizer workers to run: one per CPU core, minus one
+ * for the pipeline worker (which parses the export and starts the pool),
+ * within `MAX_TOKENIZER_WORKERS`.
+ */
+export function getTokenizerPoolSize(): number {
+  const cores =
+    typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_TOKENIZER_WORKERS, cores - 1));
+}
 
 /**
- * Lazily create or retrieve the tokenizer worker. Once created, it will be
- * reused until terminated.
+ * Lazily create or retrieve the pool of tokenizer workers. Once created, it
+ * will be reused until terminated.
  * @throws Error if running in a non-browser environment.
  */
-function initTokenizerWorker(): Worker {
-  if (typeof window === "undefined") {
+function initTokenizerPool(): (PooledWorker | null)[] {
+  // Checked on `Worker` rather than `window`, as the pool is started from the
+  // pipeline worker
+  if (typeof Worker === "undefined") {
     throw new Error("Tokenizer worker can only be initialized in the browser.");
   }
 
-  if (!worker) {
-    console.log("Creating Tokenizer Worker (js-tiktoken)...");
-    workerStartTime = performance.now();
+  if (!workerPool) {
+    const poolSize = getTokenizerPoolSize();
+    console.log(`Creating ${poolSize} Tokenizer Worker(s) (js-tiktoken)...`);
+    workerPool = [];
+    for (let slot = 0; slot < poolSize; slot++) {
+      workerPool.push(createPooledWorker(slot));
+    }
+  }
+  return workerPool;
+}
 
-    // Initialize the worker, referencing the 'tokenizer.worker.ts' module.
-    worker = new Worker(new URL("./tokenizer.worker.ts", import.meta.url), {
+/**
+ * Start a tokenizer worker for a slot of the pool.
+ * @param slot     Index of the slot in the pool
+ * @param failures Failures of the worker it replaces, if any
+ */
+function createPooledWorker(slot: number, failures = 0): PooledWorker {
+  // Initialize the worker, referencing the 'tokenizer.worker.ts' module.
+  const pooled: PooledWorker = {
+    worker: new Worker(new URL("./tokenizer.worker.ts", import.meta.url), {
       type: "module",
-    });
+    }),
+    ready: false,
+    startTime: performance.now(),
+    inFlight: new Map(),
+    queued: [],
+    failures,
+  };
 
-    worker.onmessage = (event: MessageEvent) => {
-      const { id, count, error, fallbackUsed, type } = event.data;
-
-      // Handle special worker signals
-      if (type === "WORKER_READY") {
-        // Worker finished its initialization
-        const readyTime = workerStartTime
-          ? (performance.now() - workerStartTime).toFixed(2)
-          : "N/A";
-        console.log(
-          `Tokenizer Worker is ready. Initialization took ${readyTime} ms.`
-        );
-        workerStartTime = null;
-        workerReady = true;
-        return;
-      }
+  pooled.worker.onmessage = (event: MessageEvent) => {
+    const { id, counts, estimated, error, fallbackUsed, type } = event.data;
+
+    // Handle special worker signals
+    if (type === "WORKER_READY") {
+      // Worker finished its initialization
+      console.log(
+        `Tokenizer Worker ${slot} is ready. Initialization took ${(
+          performance.now() - pooled.startTime
+        ).toFixed(2)} ms.`
+      );
+      pooled.ready = true;
+      const queued = pooled.queued;
+      pooled.queued = [];
+      queued.forEach((request) => postRequest(pooled, request));
+      return;
+    }
 
-      // Handle token count responses
-      const resolve = pendingRequests.get(id);
-      const reject = errorCallbacks.get(id);
-
-      if (resolve && reject) {
-        if (error) {
-          console.warn(
-            `Worker returned an error for request ${id}: ${error}${
-              fallbackUsed ? " (fallback used)" : ""
-            }`
-          );
-          // If the worker had to fallback to an estimate, we use that count
-          if (fallbackUsed && typeof count === "number") {
-            resolve(count);
-          } else {
-            reject(new Error(error));
-          }
-        } else if (typeof count === "number") {
-          resolve(count);
+    // Handle token count responses
+    const request = pooled.inFlight.get(id);
+    if (request) {
+      pooled.inFlight.delete(id);
+      pooled.failures = 0;
+      if (error) {
+        console.warn(
+          `Worker returned an error for request ${id}: ${error}${
+            fallbackUsed ? " (fallback used)" : ""
+          }`
+        );
+        // If the worker had to fallback to an estimate, we use those counts;
+        // only the texts it failed on are estimated
+        if (fallbackUsed && Array.isArray(counts)) {
+          request.resolve({
+            counts,
+            estimated: Array.isArray(estimated)
+              ? estimated
+              : counts.map(() => true),
+          });
         } else {
-          reject(new Error(`Invalid response from worker for request ${id}.`));
+          request.reject(new Error(error));
         }
-
-        pendingRequests.delete(id);
-        errorCallbacks.delete(id);
+      } else if (Array.isArray(counts)) {
+        request.resolve({ counts, estimated: counts.map(() => false) });
       } else {
-        console.warn(`Received message for unknown request ID: ${id}`);
+        request.reject(
+          new Error(`Invalid response from worker for request ${id}.`)
+        );
       }
-    };
+    } else if (cancelledRequests.has(id)) {
+      cancelledRequests.delete(id);
+    } else {
+      console.warn(`Received message for unknown request ID: ${id}`);
+    }
+  };
 
-    worker.onerror = (error: ErrorEvent) => {
-      console.error("Tokenizer Worker Error:", error);
-      workerReady = false;
-      // Reject all pending promises
-      errorCallbacks.forEach((rejectCallback) => {
-        rejectCallback(new Error(`Worker error: ${error.message}`));
-      });
-      pendingRequests.clear();
-      errorCallbacks.clear();
-      worker = null;
-    };
+  pooled.worker.onerror = (error: ErrorEvent) => {
+    console.error(`Tokenizer Worker ${slot} Error:`, error);
+    pooled.worker.terminate();
+    const requests = Array.from(pooled.inFlight.values()).concat(pooled.queued);
+    pooled.inFlight.clear();
+    pooled.queued = [];
+    if (workerPool?.[slot] !== pooled) return;
+
+    // Restart the worker and hand its requests to the pool again, unless it
+    // keeps failing
+    if (pooled.failures + 1 < MAX_WORKER_RESTARTS) {
+      console.log(`Restarting Tokenizer Worker ${slot}...`);
+      workerPool[slot] = createPooledWorker(slot, pooled.failures + 1);
+      requests.forEach(dispatchRequest);
+    } else {
+      console.error(`Tokenizer Worker ${slot} keeps failing; not restarting.`);
+      workerPool[slot] = null;
+      requests.forEach((request) =>
+        request.reject(new Error(`Worker error: ${error.message}`))
+      );
+    }
+  };
+
+  return pooled;
+}
+
+/**
+ * Assign a request to the least busy worker of the pool, posting it straight
+ * away if that worker is ready.
+ */
+function dispatchRequest(request: TokenizerRequest) {
+  let target: PooledWorker | null = null;
+  for (const pooled of initTokenizerPool()) {
+    if (
+      pooled &&
+      (!target ||
+        pooled.inFlight.size + pooled.queued.length <
+          target.inFlight.size + target.queued.length)
+    ) {
+      target = pooled;
+    }
+  }
+
+  if (!target) {
+    // Every worker failed completely
+    console.error("Tokenizer Worker unavailable. Cannot process token count.");
+    request.reject(new Error("Tokenizer Worker not available."));
+  } else if (target.ready) {
+    postRequest(target, request);
+  } else {
+    target.queued.push(request);
+  }
+}
+
+/**
+ * Post a request to a ready worker.
+ */
+function postRequest(pooled: PooledWorker, request: TokenizerRequest) {
+  try {
+    pooled.worker.postMessage({
+      id: request.id,
+      texts: request.texts,
+      encoding: request.encoding,
+    });
+    pooled.inFlight.set(request.id, request);
+  } catch (postError: any) {
+    console.error("Failed to post message to tokenizer worker:", postError);
+    request.reject(postError);
+  }
+}
+
+/**
+ * Remove a request from whichever worker it was assigned to.
+ * @returns Whether the request was still pending
+ */
+function removeRequest(requestId: number): boolean {
+  for (const pooled of workerPool ?? []) {
+    if (!pooled) continue;
+    if (pooled.inFlight.delete(requestId)) {
+      cancelledRequests.add(requestId);
+      return true;
+    }
+    const index = pooled.queued.findIndex(({ id }) => id === requestId);
+    if (index !== -1) {
+      pooled.queued.splice(index, 1);
+      return true;
+    }
   }
-  return worker;
+  return false;
 }
 
 /**
- * Count the tokens in a given text using the Web Worker. If the worker is not
- * ready, this function will wait and retry briefly until it is.
- * @param text The text to tokenize
- * @returns A promise resolving to the token count
+ * Count the tokens in a batch of texts using one of the pool's Web Workers,
+ * in a single request. If no worker is ready yet, the request waits for the
+ * first one assigned to it.
+ * @param texts    The texts to tokenize
+ * @param encoding The encoding to count with
+ * @param signal   Aborts the request, removing it from the worker queue
+ * @returns A promise resolving to the token count of each text, in order
+ * @throws The abort reason if `signal` is aborted
  */
-async function countTextTokens(text: string): Promise<number> {
+async function countTextTokensBatch(
+  texts: string[],
+  encoding: TokenizerEncoding,
+  signal?: AbortSignal
+): Promise<TokenCountResult> {
+  signal?.throwIfAborted();
+
   // Quick returns
-  if (!text) return 0;
-  if (typeof window === "undefined") {
+  if (texts.length === 0) return { counts: [], estimated: [] };
+  if (inProcessTokenCounter) {
+    return {
+      counts: await inProcessTokenCounter(texts, encoding),
+      estimated: texts.map(() => false),
+    };
+  }
+  if (typeof Worker === "undefined") {
     // Fallback estimate on server side
     console.warn(
       "Warning: token counting attempted in non-browser environment. Using fallback estimation."
     );
-    return Math.ceil(text.length / 4);
+    return {
+      counts: texts.map((text) => Math.ceil(text.length / 4)),
+      estimated: texts.map(() => true),
+    };
   }
 
-  const tokenizerWorker = initTokenizerWorker();
   const requestId = nextRequestId++;
 
-  return new Promise<number>((resolve, reject) => {
-    pendingRequests.set(requestId, resolve);
-    errorCallbacks.set(requestId, reject);
-
-    // Attempt to post the message once the worker is ready
-    function attemptPostMessage() {
-      if (workerReady && tokenizerWorker) {
-        try {
-          tokenizerWorker.postMessage({ id: requestId, text });
-        } catch (postError: any) {
-          console.error(
-            "Failed to post message to tokenizer worker:",
-            postError
-          );
-          pendingRequests.delete(requestId);
-          errorCallbacks.delete(requestId);
-          reject(postError);
-        }
-      } else if (!tokenizerWorker) {
-        // Worker failed completely
-        console.error(
-          "Tokenizer Worker unavailable. Cannot process token count."
-        );
-        reject(new Error("Tokenizer Worker not available."));
-        pendingRequests.delete(requestId);
-        errorCallbacks.delete(requestId);
-      } else {
-        setTimeout(attemptPostMessage, 50);
-      }
-    }
-
-    attemptPostMessage();
+  return new Promise<TokenCountResult>((resolve, reject) => {
+    const onAbort = () => {
+      if (removeRequest(requestId)) reject(signal!.reason);
+    };
+    const settle =
+      <T>(callback: (value: T) => void) =>
+      (value: T) => {
+        signal?.removeEventListener("abort", onAbort);
+        callback(value);
+      };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    dispatchRequest({
+      id: requestId,
+      texts,
+      encoding,
+      resolve: settle(resolve),
+      reject: settle(reject),
+    });
   });
 }
 
 /**
- * Terminate the tokenizer worker and clear any pending requests. Use this if the
- * worker is no longer needed.
+ * Terminate the tokenizer workers and clear any pending requests. Use this if
+ * the workers are no longer needed.
  */
 export function terminateTokenizerWorker() {
-  if (worker) {
-    console.log("Terminating Tokenizer Worker...");
-    worker.terminate();
-    worker = null;
-    workerReady = false;
-    pendingRequests.clear();
-    errorCallbacks.clear();
+  if (workerPool) {
+    console.log("Terminating Tokenizer Workers...");
+    workerPool.forEach((pooled) => pooled?.worker.terminate());
+    workerPool = null;
+    cancelledRequests.clear();
   }
 }
 
+/**
+ * Check whether an error was caused by aborting processing through the
+ * `signal` in `ProcessingOptions`.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "AbortError"
+  );
+}
+
 //
 // ─── IMAGE TOKEN ESTIMATION ─────────────────────────────────────────────────────
 //
@@ -275,31 +524,29 @@ export async function countImageTokens(
 
 /**
  * Convert a Unix timestamp (in seconds or milliseconds) to a YYYY-MM-DD string
- * in the browser's local timezone.
+ * in the given timezone.
  * @param unixTime Unix timestamp in seconds (or ms, if > 1e11)
+ * @param timeZone IANA timezone; defaults to the browser's local timezone
  */
-export function getDayKey(unixTime: number): string {
-  // If obviously in milliseconds, convert to seconds
-  if (unixTime > 1e11) {
-    unixTime = Math.floor(unixTime / 1000);
-  }
-  const date = new Date(unixTime * 1000);
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  const d = String(date.getDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
+export function getDayKey(unixTime: number, timeZone?: string): string {
+  return getZonedDayAndHour(unixTime, timeZone).dayKey;
+}
+
+/**
+ * Check whether a value is a usable Unix timestamp.
+ */
+function isValidTimestamp(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
 }
 
 /**
  * Extract the hour (0-23) from a Unix timestamp (in seconds or milliseconds)
- * using the browser's local timezone.
+ * in the given timezone.
  * @param unixTime Unix timestamp in seconds (or ms, if > 1e11)
+ * @param timeZone IANA timezone; defaults to the browser's local timezone
  */
-export function getHourOfDay(unixTime: number): number {
-  if (unixTime > 1e11) {
-    unixTime = Math.floor(unixTime / 1000);
-  }
-  return new Date(unixTime * 1000).getHours();
+export function getHourOfDay(unixTime: number, timeZone?: string): number {
+  return getZonedDayAndHour(unixTime, timeZone).hour;
 }
 
 //
@@ -339,6 +586,49 @@ export interface DayBucket {
   models: Record<string, BucketWithHours>;
 }
 
+/**
+ * A single billed request: one completed assistant turn, or a batch of images
+ * generated by a tool (counted in `output_tokens`).
+ */
+export interface UsageRecord {
+  /** When the request was made, in Unix seconds */
+  timestamp: number;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/**
+ * Everything a single conversation contributed to the aggregate, kept so the
+ * usage can be re-bucketed (e.g. in another timezone) without re-tokenizing.
+ */
+export interface ConversationUsage {
+  /** Identifier from the source export, if it has one */
+  id?: string;
+  /** When the conversation was created, in Unix seconds */
+  create_time: number;
+  /** When the conversation was last updated, in Unix seconds, if known */
+  update_time?: number;
+  /** Models that produced at least one response in the conversation */
+  models: string[];
+  usage: UsageRecord[];
+  /** How the conversation's message tokens were counted */
+  accuracy?: TokenAccuracy;
+}
+
+/**
+ * Tokens of the messages themselves (before context is accumulated into
+ * billed input), by how reliably they were counted.
+ */
+export interface TokenAccuracy {
+  /** Counted by the tokenizer, or from image dimensions */
+  exact: number;
+  /** Estimated as `length / 4` because the tokenizer was unavailable */
+  estimated: number;
+  /** Flat defaults: unknown content parts and images without dimensions */
+  defaulted: number;
+}
+
 /**
  * Primary aggregation structure for the entire dataset, keyed by day.
  */
@@ -348,8 +638,66 @@ export interface Aggregator {
   endDate?: string;
   totalCostAllModels?: number;
   allModelSlugs?: Set<string>;
+  /** IANA timezone days and hours are bucketed in; the browser's if unset */
+  timeZone?: string;
+  /** Per-conversation usage that `usageByDay` was built from */
+  conversations?: ConversationUsage[];
+  /** How reliably the tokens behind these totals were counted */
+  tokenAccuracy?: TokenAccuracy;
+}
+
+/**
+ * How conversations with regenerated responses or edited prompts are billed:
+ * - "active": only the path to the conversation's `current_node`, i.e. the
+ *   version of the conversation that was kept
+ * - "all": every branch, each with the context of its own history
+ */
+export type BranchMode = "active" | "all";
+
+/**
+ * Options controlling how conversations are turned into usage.
+ */
+export interface ProcessingOptions {
+  branchMode: BranchMode;
+  /** IANA timezone to bucket days and hours in; the browser's if unset */
+  timeZone?: string;
+  /** Cancels processing; pending token counts are removed from the worker queue */
+  signal?: AbortSignal;
+  /** Called as conversations are processed, at most every `PROGRESS_INTERVAL_MS` */
+  onProgress?: (progress: ProcessingProgress) => void;
+  /**
+   * How far through its source a streamed input is, from 0 to 1. Used to
+   * estimate the number of conversations, which isn't known up front.
+   */
+  getSourceProgress?: () => number;
 }
 
+/**
+ * Progress of `processConversations`, as reported to `onProgress`.
+ */
+export interface ProcessingProgress {
+  conversationsDone: number;
+  /** Number of conversations, if known or estimated yet */
+  totalConversations?: number;
+  /** Whether `totalConversations` is estimated from the source progress */
+  isTotalEstimated: boolean;
+  /**
+   * Tokens of the messages counted so far, each message once (unlike billed
+   * input, which re-sends the context on every turn)
+   */
+  tokensCounted: number;
+  elapsedMs: number;
+  /** Estimated time remaining, if it can be estimated yet */
+  etaMs?: number;
+}
+
+/** Minimum time between two `onProgress` calls */
+export const PROGRESS_INTERVAL_MS = 100;
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  branchMode: "all",
+};
+
 //
 // ─── AGGREGATION HELPER FUNCTIONS ───────────────────────────────────────────────
 //
@@ -400,6 +748,7 @@ function createDayBucket(): DayBucket {
  * @param modelSlug   The model slug used
  * @param inputTokens Number of input (prompt) tokens
  * @param outputTokens Number of output tokens (assistant response)
+ * @param sign        1 to add the usage, -1 to take it back out
  */
 function updateAggregatorUsage(
   aggregator: Aggregator,
@@ -407,7 +756,8 @@ function updateAggregatorUsage(
   hour: number,
   modelSlug: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  sign: 1 | -1 = 1
 ) {
   // Ensure day bucket exists
   if (!aggregator.usageByDay[dayKey]) {
@@ -435,6 +785,9 @@ function updateAggregatorUsage(
       (inputTokens / 1e6) * costCfg.input +
       (outputTokens / 1e6) * costCfg.output;
   }
+  inputTokens *= sign;
+  outputTokens *= sign;
+  cost *= sign;
 
   //
   // Update model's hour bucket
@@ -442,7 +795,7 @@ function updateAggregatorUsage(
   modelBucket.hours[hour].input_tokens += inputTokens;
   modelBucket.hours[hour].output_tokens += outputTokens;
   modelBucket.hours[hour].cost += cost;
-  modelBucket.hours[hour].message_count += 1;
+  modelBucket.hours[hour].message_count += sign;
 
   //
   // Update model's daily totals
@@ -450,7 +803,7 @@ function updateAggregatorUsage(
   modelBucket.input_tokens += inputTokens;
   modelBucket.output_tokens += outputTokens;
   modelBucket.cost += cost;
-  modelBucket.message_count += 1;
+  modelBucket.message_count += sign;
 
   //
   // Update day's total hour bucket
@@ -458,7 +811,7 @@ function updateAggregatorUsage(
   dayBucket.total.hours[hour].input_tokens += inputTokens;
   dayBucket.total.hours[hour].output_tokens += outputTokens;
   dayBucket.total.hours[hour].cost += cost;
-  dayBucket.total.hours[hour].message_count += 1;
+  dayBucket.total.hours[hour].message_count += sign;
 
   //
   // Update day's total daily totals
@@ -466,7 +819,7 @@ function updateAggregatorUsage(
   dayBucket.total.input_tokens += inputTokens;
   dayBucket.total.output_tokens += outputTokens;
   dayBucket.total.cost += cost;
-  dayBucket.total.message_count += 1;
+  dayBucket.total.message_count += sign;
 }
 
 //
@@ -474,411 +827,845 @@ function updateAggregatorUsage(
 //
 
 /**
- * Process a single conversation object (in the ChatGPT-style export format).
- * Identifies day/hour from the conversation's `create_time` and aggregates
- * usage data into the provided Aggregator.
+ * Process a single normalized conversation (see `lib/importers`). Usage is
+ * bucketed by the day/hour of each message, falling back to the conversation's
+ * creation time, and aggregated into the provided Aggregator. The conversation
+ * itself is counted on the day it was created.
  *
- * @param conversation A single conversation object from the export
+ * @param conversation A single normalized conversation
  * @param aggregator   The global aggregator structure
+ * @param options      Processing options
  * @returns A set of model slugs used in this conversation
  */
 export async function processConversation(
-  conversation: any,
-  aggregator: Aggregator
+  conversation: NormalizedConversation,
+  aggregator: Aggregator,
+  options: ProcessingOptions = DEFAULT_PROCESSING_OPTIONS
 ): Promise<Set<string>> {
-  let conversationTimestamp = conversation?.create_time ?? Date.now() / 1000;
-  let dayKey = "unknown-day";
-  let hour = 0;
+  const conversationUsage = await getConversationUsage(conversation, options);
+  addConversationUsage(aggregator, conversationUsage);
+  aggregator.conversations?.push(conversationUsage);
 
-  // Attempt to parse the conversation timestamp safely
-  try {
-    dayKey = getDayKey(conversationTimestamp);
-    hour = getHourOfDay(conversationTimestamp);
-  } catch (err) {
-    console.warn(
-      "Could not parse create_time, defaulting to 'unknown-day' and hour = 0.",
-      err
-    );
-  }
+  return new Set(conversationUsage.models);
+}
 
-  // Ensure aggregator has a dayBucket for dayKey if dayKey is recognized
-  if (dayKey !== "unknown-day" && !aggregator.usageByDay[dayKey]) {
-    aggregator.usageByDay[dayKey] = createDayBucket();
-  }
+/**
+ * Tokenize and bill a single normalized conversation without touching any
+ * aggregator, so several conversations can be tokenized at once.
+ *
+ * @param conversation A single normalized conversation
+ * @param options      Processing options
+ * @returns The conversation's usage
+ */
+async function getConversationUsage(
+  conversation: NormalizedConversation,
+  options: ProcessingOptions
+): Promise<ConversationUsage> {
+  const conversationTimestamp = isValidTimestamp(conversation.create_time)
+    ? conversation.create_time
+    : Date.now() / 1000;
 
   // Track which models were used in this conversation
-  const modelsUsedInConversation = new Set<string>();
+  const usage: UsageRecord[] = [];
+  const accuracy: TokenAccuracy = { exact: 0, estimated: 0, defaulted: 0 };
+  const modelsUsedInConversation = await processMessageList(
+    conversation.messages,
+    conversationTimestamp,
+    usage,
+    options.branchMode,
+    conversation.current_node,
+    options.signal,
+    accuracy
+  );
+
+  return {
+    id: conversation.id,
+    create_time: conversationTimestamp,
+    update_time: isValidTimestamp(conversation.update_time)
+      ? conversation.update_time
+      : undefined,
+    models: Array.from(modelsUsedInConversation),
+    usage,
+    accuracy,
+  };
+}
+
+/**
+ * Bucket a conversation's usage into the aggregator's days and hours, in the
+ * aggregator's timezone.
+ *
+ * @param aggregator        The global aggregator structure
+ * @param conversationUsage The usage of a single conversation
+ * @param sign              1 to add the usage, -1 to take it back out (see
+ *   `removeConversationUsage`)
+ */
+function addConversationUsage(
+  aggregator: Aggregator,
+  conversationUsage: ConversationUsage,
+  sign: 1 | -1 = 1
+) {
+  const { timeZone } = aggregator;
 
-  // If "mapping" field is present => typical ChatGPT format
-  if (conversation?.mapping) {
-    const used = await processMappedMessages(
-      conversation.mapping,
+  for (const record of conversationUsage.usage) {
+    const { dayKey, hour } = getZonedDayAndHour(record.timestamp, timeZone);
+    updateAggregatorUsage(
+      aggregator,
       dayKey,
       hour,
-      aggregator
-    );
-    used.forEach((m) => modelsUsedInConversation.add(m));
-  } else {
-    // No recognized data structure
-    console.warn(
-      "Conversation skipped: No 'mapping' field found.",
-      conversation?.title
+      record.model,
+      record.input_tokens,
+      record.output_tokens,
+      sign
     );
   }
 
+  // Ensure aggregator has a dayBucket for the day the conversation started
+  const dayKey = getDayKey(conversationUsage.create_time, timeZone);
+  if (!aggregator.usageByDay[dayKey]) {
+    aggregator.usageByDay[dayKey] = createDayBucket();
+  }
+
   // For each conversation, increment the conversation_count in the aggregator
   // for the day total and for each model used.
-  if (dayKey !== "unknown-day" && modelsUsedInConversation.size > 0) {
+  if (conversationUsage.models.length > 0) {
     const dayBucket = aggregator.usageByDay[dayKey];
-    dayBucket.total.conversation_count += 1; // One conversation overall
+    dayBucket.total.conversation_count += sign; // One conversation overall
 
-    modelsUsedInConversation.forEach((modelSlug) => {
+    conversationUsage.models.forEach((modelSlug) => {
       if (!dayBucket.models[modelSlug]) {
         dayBucket.models[modelSlug] = createBucketWithHours();
       }
-      dayBucket.models[modelSlug].conversation_count += 1;
+      dayBucket.models[modelSlug].conversation_count += sign;
     });
   }
+}
+
+/**
+ * Take a conversation's usage back out of the aggregator, e.g. before adding
+ * a newer copy of it. Model buckets left without any usage are dropped; days
+ * left without any models are only collected, as they may still be another
+ * conversation's creation day (see `dropEmptyDays`).
+ *
+ * @param aggregator        The global aggregator structure
+ * @param conversationUsage Usage previously added with `addConversationUsage`
+ * @param emptiedDays       Collects the days left without any models
+ */
+function removeConversationUsage(
+  aggregator: Aggregator,
+  conversationUsage: ConversationUsage,
+  emptiedDays: Set<string>
+) {
+  const { timeZone } = aggregator;
+  addConversationUsage(aggregator, conversationUsage, -1);
+
+  const dayKeys = new Set(
+    conversationUsage.usage.map((record) =>
+      getDayKey(record.timestamp, timeZone)
+    )
+  );
+  dayKeys.add(getDayKey(conversationUsage.create_time, timeZone));
+  dayKeys.forEach((dayKey) => {
+    const dayBucket = aggregator.usageByDay[dayKey];
+    if (!dayBucket) return;
+
+    // Subtracting costs can leave rounding errors behind where nothing is left
+    clearRoundingErrors(dayBucket.total);
+    for (const [modelSlug, modelBucket] of Object.entries(dayBucket.models)) {
+      clearRoundingErrors(modelBucket);
+      if (
+        modelBucket.message_count === 0 &&
+        modelBucket.conversation_count === 0
+      ) {
+        delete dayBucket.models[modelSlug];
+      }
+    }
+
+    if (Object.keys(dayBucket.models).length === 0) emptiedDays.add(dayKey);
+  });
+}
+
+/**
+ * Drop the days emptied by `removeConversationUsage` that are still empty and
+ * aren't the creation day of any conversation left in the aggregate.
+ */
+function dropEmptyDays(aggregator: Aggregator, emptiedDays: Set<string>) {
+  if (emptiedDays.size === 0) return;
+
+  const creationDays = new Set(
+    (aggregator.conversations ?? []).map((conversationUsage) =>
+      getDayKey(conversationUsage.create_time, aggregator.timeZone)
+    )
+  );
+  emptiedDays.forEach((dayKey) => {
+    const dayBucket = aggregator.usageByDay[dayKey];
+    if (
+      dayBucket &&
+      Object.keys(dayBucket.models).length === 0 &&
+      !creationDays.has(dayKey)
+    ) {
+      delete aggregator.usageByDay[dayKey];
+    }
+  });
+}
+
+/**
+ * Zero the cost of a bucket, and of its hours, once no messages are left in
+ * it.
+ */
+function clearRoundingErrors(bucket: BucketWithHours) {
+  if (bucket.message_count === 0) bucket.cost = 0;
+  for (const hourBucket of bucket.hours) {
+    if (hourBucket.message_count === 0) hourBucket.cost = 0;
+  }
+}
 
-  return modelsUsedInConversation;
+/**
+ * The running totals of a conversation up to some message: everything that is
+ * in the context window, and the output of the assistant turn in progress.
+ */
+interface RollingState {
+  rollingContextTokens: number;
+  rollingOutputTokens: number;
+  /** Time of the latest message that had one, in Unix seconds */
+  lastTimestamp: number;
 }
 
 /**
  * Process an array of "flattened" messages that already contain pre-calculated
- * token counts. Updates the aggregator with final usage data.
+ * token counts, collecting a usage record for every completed assistant turn.
  *
- * @param messages  A flat array of messages with token info
- * @param dayKey    Date key for the conversation
- * @param hour      Hour of day
- * @param aggregator The global aggregator structure
+ * @param messages          A flat array of messages with token info
+ * @param fallbackTimestamp Time for messages before the first one with its own
+ *                          `create_time`, in Unix seconds
+ * @param usage             Array collecting the conversation's usage records
  * @returns Set of models used in these messages
  */
 export async function processFlatMessagesWithTokenCounts(
   messages: any[],
-  dayKey: string,
-  hour: number,
-  aggregator: Aggregator
+  fallbackTimestamp: number,
+  usage: UsageRecord[]
 ): Promise<Set<string>> {
-  let rollingContextTokens = 0;
-  let rollingOutputTokens = 0;
+  const state: RollingState = {
+    rollingContextTokens: 0,
+    rollingOutputTokens: 0,
+    lastTimestamp: fallbackTimestamp,
+  };
+  const modelsUsed = new Set<string>();
+
+  for (const msg of messages) {
+    applyTokenizedMessage(msg, state, usage, modelsUsed);
+  }
+  return modelsUsed;
+}
+
+/**
+ * Process the messages of a conversation tree. Each message continues the
+ * rolling state of its parent, so every branch (regenerated response or
+ * edited prompt) is billed with the context of its own history only.
+ *
+ * @param messages          Tokenized messages with `id` and `parent` set
+ * @param fallbackTimestamp Time for messages before the first one with its own
+ *                          `create_time`, in Unix seconds
+ * @param usage             Array collecting the conversation's usage records
+ * @returns Set of models used in these messages
+ */
+function processMessageTree(
+  messages: TokenizedMessage[],
+  fallbackTimestamp: number,
+  usage: UsageRecord[]
+): Set<string> {
   const modelsUsed = new Set<string>();
+  const ids = new Set(messages.map((msg) => msg.id));
+  const roots: TokenizedMessage[] = [];
+  const childrenByParent = new Map<string, TokenizedMessage[]>();
 
   for (const msg of messages) {
-    const role = msg.role ?? "unknown";
-    const contentTokens = msg.contentTokens ?? 0;
-    const searchTokens = msg.searchTokens ?? 0;
-    const outputTokens = msg.outputTokens ?? 0;
-    const modelSlug = msg.model_slug ?? "unknown_model";
-
-    // If this message is a reasoning recap, we skip it
-    if (msg.isReasoningRecap) {
+    if (msg.parent == null || !ids.has(msg.parent)) {
+      roots.push(msg);
       continue;
     }
+    const siblings = childrenByParent.get(msg.parent) ?? [];
+    siblings.push(msg);
+    childrenByParent.set(msg.parent, siblings);
+  }
 
-    // Add any "search" tokens to context (search results)
-    if (searchTokens > 0) {
-      rollingContextTokens += searchTokens;
+  // Depth-first, so only one branch's states are held at a time
+  const stack: [TokenizedMessage, RollingState][] = roots
+    .reverse()
+    .map((msg) => [
+      msg,
+      {
+        rollingContextTokens: 0,
+        rollingOutputTokens: 0,
+        lastTimestamp: fallbackTimestamp,
+      },
+    ]);
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const [msg, parentState] = stack.pop()!;
+    if (msg.id !== undefined) {
+      if (visited.has(msg.id)) continue;
+      visited.add(msg.id);
     }
 
-    // Process user/system/tool roles
-    if (role === "user" || role === "system" || role === "tool") {
-      // They contribute tokens to the "context" that goes into the next LLM response
-      rollingContextTokens += contentTokens;
-    } else if (role === "assistant") {
-      // If it's an assistant message, we accumulate tokens for final usage increment
-      if (modelSlug !== "unknown_model") {
-        modelsUsed.add(modelSlug);
-      }
+    const state = { ...parentState };
+    applyTokenizedMessage(msg, state, usage, modelsUsed);
 
-      rollingContextTokens += contentTokens + outputTokens;
-      rollingOutputTokens += outputTokens;
-
-      // Only increment aggregator usage if it's the final message in a turn
-      if (msg.isFinalMessage) {
-        updateAggregatorUsage(
-          aggregator,
-          dayKey,
-          hour,
-          modelSlug,
-          rollingContextTokens,
-          rollingOutputTokens
-        );
-        rollingOutputTokens = 0;
-      }
+    const children =
+      msg.id !== undefined ? childrenByParent.get(msg.id) ?? [] : [];
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push([children[i], state]);
     }
   }
   return modelsUsed;
 }
 
 /**
- * Process "mapped" ChatGPT-style messages from a conversation's `mapping` object
- * (the structure used by exported ChatGPT JSON).
+ * Follow `parent` links from the conversation's current node back to the root
+ * to find the path the user actually ended up with.
  *
- * This function flattens the messages, pre-calculates token usage, then calls
- * `processFlatMessagesWithTokenCounts` to finalize aggregator usage.
- *
- * @param mapping    The conversation.mapping object
- * @param dayKey     Date string (YYYY-MM-DD)
- * @param hour       Hour of the day (0-23)
- * @param aggregator The global aggregator
- * @returns A set of model slugs used in these messages
+ * @param messages    Tokenized messages with `id` and `parent` set
+ * @param currentNode ID of the conversation's current node; defaults to the
+ *                    last message
+ * @returns The messages on the active path, root first
  */
-export async function processMappedMessages(
-  mapping: any,
-  dayKey: string,
-  hour: number,
-  aggregator: Aggregator
-): Promise<Set<string>> {
-  const nodeMessages = [];
-  const modelsUsed = new Set<string>();
+function getActivePath(
+  messages: TokenizedMessage[],
+  currentNode?: string
+): TokenizedMessage[] {
+  const byId = new Map<string, TokenizedMessage>();
+  messages.forEach((msg) => {
+    if (msg.id !== undefined) byId.set(msg.id, msg);
+  });
+
+  const path: TokenizedMessage[] = [];
+  const visited = new Set<string>();
+  let msg: TokenizedMessage | undefined =
+    (currentNode !== undefined ? byId.get(currentNode) : undefined) ??
+    messages[messages.length - 1];
+
+  while (msg && !(msg.id !== undefined && visited.has(msg.id))) {
+    if (msg.id !== undefined) visited.add(msg.id);
+    path.push(msg);
+    msg = msg.parent != null ? byId.get(msg.parent) : undefined;
+  }
+  return path.reverse();
+}
+
+/**
+ * Advance a rolling state by one tokenized message, recording a usage record
+ * when the message completes an assistant turn. The record is timed by the
+ * message's own `create_time`, or that of the latest earlier message that had
+ * one.
+ */
+function applyTokenizedMessage(
+  msg: any,
+  state: RollingState,
+  usage: UsageRecord[],
+  modelsUsed: Set<string>
+) {
+  const role = msg.role ?? "unknown";
+  const contentTokens = msg.contentTokens ?? 0;
+  const searchTokens = msg.searchTokens ?? 0;
+  const outputTokens = msg.outputTokens ?? 0;
+  const modelSlug = msg.model_slug ?? "unknown_model";
+
+  if (isValidTimestamp(msg.create_time)) {
+    state.lastTimestamp = msg.create_time;
+  }
 
-  for (const nodeKey of Object.keys(mapping)) {
-    const node = mapping[nodeKey];
-    if (!node?.message) continue;
+  // Images generated by tools are billed per image (stored as output tokens)
+  if (msg.generatedImages) {
+    for (const imageModel of Object.keys(msg.generatedImages)) {
+      usage.push({
+        timestamp: state.lastTimestamp,
+        model: imageModel,
+        input_tokens: 0,
+        output_tokens: msg.generatedImages[imageModel],
+      });
+      modelsUsed.add(imageModel);
+    }
+  }
+
+  // If this message is a reasoning recap, we skip it
+  if (msg.isReasoningRecap) {
+    return;
+  }
+
+  // Add any "search" tokens to context (search results)
+  if (searchTokens > 0) {
+    state.rollingContextTokens += searchTokens;
+  }
+
+  // Process user/system/tool roles
+  if (role === "user" || role === "system" || role === "tool") {
+    // They contribute tokens to the "context" that goes into the next LLM response
+    state.rollingContextTokens += contentTokens;
+  } else if (role === "assistant") {
+    // If it's an assistant message, we accumulate tokens for final usage increment
+    if (modelSlug !== "unknown_model") {
+      modelsUsed.add(modelSlug);
+    }
+
+    state.rollingContextTokens += contentTokens + outputTokens;
+    state.rollingOutputTokens += outputTokens;
+
+    // Only record usage if it's the final message in a turn
+    if (msg.isFinalMessage) {
+      usage.push({
+        timestamp: state.lastTimestamp,
+        model: modelSlug,
+        input_tokens: state.rollingContextTokens,
+        output_tokens: state.rollingOutputTokens,
+      });
+      state.rollingOutputTokens = 0;
+    }
+  }
+}
+
+/**
+ * A message reduced to its token counts, as consumed by
+ * `processFlatMessagesWithTokenCounts`.
+ */
+export interface TokenizedMessage {
+  /** Message ID and parent message ID, for conversations stored as a tree */
+  id?: string;
+  parent?: string | null;
+  /** When the message was sent, in Unix seconds */
+  create_time?: number;
+  role: string;
+  contentTokens: number;
+  outputTokens: number;
+  searchTokens: number;
+  /** Part of the token counts above that is a `length / 4` estimate */
+  estimatedTokens: number;
+  /** Part of the token counts above that is a flat default */
+  defaultedTokens: number;
+  model_slug: string;
+  isReasoningMessage: boolean;
+  isReasoningRecap: boolean;
+  isFinalMessage: boolean;
+  /** Number of images generated by this message, keyed by image model */
+  generatedImages?: Record<string, number>;
+}
+
+/** Token count fields of a `TokenizedMessage` that text counts are added to */
+type TokenCountField = "contentTokens" | "outputTokens" | "searchTokens";
+
+/**
+ * Texts waiting to be counted in a single worker request, each with the
+ * message and field its count is added to.
+ */
+interface TokenCountBatch {
+  texts: string[];
+  targets: { message: TokenizedMessage; field: TokenCountField }[];
+}
+
+/**
+ * Queue a text in a batch; empty texts count as zero and are skipped.
+ */
+function queueTextTokens(
+  batch: TokenCountBatch,
+  text: string,
+  message: TokenizedMessage,
+  field: TokenCountField
+) {
+  if (!text) return;
+  batch.texts.push(text);
+  batch.targets.push({ message, field });
+}
+
+/**
+ * Count every text queued in a batch and add the counts to their messages,
+ * with one worker request per encoding. Texts already counted before (see
+ * `tokenCache.ts`) and repeats within the batch are only tokenized once.
+ *
+ * Each text is counted with the encoding of its message's model. Messages
+ * without a model (user, system and most tool messages) use the model of the
+ * closest message before them that has one, or else the first one after.
+ *
+ * @param batch  The queued texts
+ * @param signal Cancels tokenization
+ */
+async function countTokenBatch(batch: TokenCountBatch, signal?: AbortSignal) {
+  const hasModel = (message: TokenizedMessage) =>
+    message.model_slug !== "unknown_model";
+  const firstWithModel = batch.targets.find(({ message }) => hasModel(message));
+  let encoding = firstWithModel
+    ? getEncodingForModel(firstWithModel.message.model_slug)
+    : DEFAULT_ENCODING;
+
+  // Indices of the batch's texts, grouped by encoding
+  const textsByEncoding = new Map<TokenizerEncoding, number[]>();
+  batch.targets.forEach(({ message }, i) => {
+    if (hasModel(message)) encoding = getEncodingForModel(message.model_slug);
+    const indices = textsByEncoding.get(encoding);
+    if (indices) indices.push(i);
+    else textsByEncoding.set(encoding, [i]);
+  });
 
-    const msg = node.message;
-    const role = msg.author?.role ?? "unknown";
-    const authorName = msg.author?.name ?? "";
+  const addCount = (textIndex: number, count: number, estimated = false) => {
+    const { message, field } = batch.targets[textIndex];
+    message[field] += count;
+    if (estimated) message.estimatedTokens += count;
+  };
 
-    let contentTokens = 0;
-    let searchTokens = 0;
-    let outputTokens = 0;
-    let modelSlug =
-      msg.metadata?.model_slug || node.metadata?.model_slug || "unknown_model";
+  await Promise.all(
+    Array.from(textsByEncoding.entries()).map(async ([encoding, indices]) => {
+      // Indices of the texts still to be tokenized, by cache key
+      const uncounted = new Map<string, number[]>();
+      for (const textIndex of indices) {
+        const key = getTokenCacheKey(batch.texts[textIndex], encoding);
+        const repeats = uncounted.get(key);
+        if (repeats) {
+          repeats.push(textIndex);
+          continue;
+        }
+        const cachedCount = lookupTokenCount(key);
+        if (cachedCount !== undefined) {
+          addCount(textIndex, cachedCount);
+        } else {
+          uncounted.set(key, [textIndex]);
+        }
+      }
+      if (uncounted.size === 0) return;
+
+      const keys = Array.from(uncounted.keys());
+      const { counts, estimated } = await countTextTokensBatch(
+        keys.map((key) => batch.texts[uncounted.get(key)![0]]),
+        encoding,
+        signal
+      );
+      keys.forEach((key, i) => {
+        const count = counts[i] ?? 0;
+        // Estimates aren't cached, so the texts are tokenized again next time
+        if (!estimated[i]) storeTokenCount(key, count);
+        uncounted
+          .get(key)!
+          .forEach((textIndex) => addCount(textIndex, count, estimated[i]));
+      });
+    })
+  );
+}
 
-    const isReasoningMessage =
+/**
+ * Count the tokens of a single ChatGPT-style message (`author.role`,
+ * `content.content_type`/`parts`, `metadata`). Image generation found in tool
+ * messages is returned in `generatedImages`.
+ *
+ * The message's texts are queued in `batch` rather than counted one by one, so
+ * their counts are only added to the returned message once the batch has been
+ * counted with `countTokenBatch`.
+ *
+ * @param msg        The message object
+ * @param messageKey Identifier used in log messages
+ * @param batch      Batch collecting the texts to count
+ * @returns The message reduced to its token counts
+ */
+async function tokenizeMessage(
+  msg: any,
+  messageKey: string,
+  batch: TokenCountBatch
+): Promise<TokenizedMessage> {
+  const role = msg.author?.role ?? "unknown";
+  const authorName = msg.author?.name ?? "";
+  const generatedImages: Record<string, number> = {};
+
+  // If it's a final reasoning recap, skip it
+  const isReasoningRecap =
+    msg.content?.content_type === "reasoning_recap" ||
+    msg.metadata?.reasoning_status === "reasoning_ended";
+
+  const tokenized: TokenizedMessage = {
+    id: msg.id,
+    parent: msg.parent,
+    create_time: isValidTimestamp(msg.create_time)
+      ? msg.create_time
+      : undefined,
+    role,
+    contentTokens: 0,
+    outputTokens: 0,
+    searchTokens: 0,
+    estimatedTokens: 0,
+    defaultedTokens: 0,
+    model_slug: msg.metadata?.model_slug || "unknown_model",
+    isReasoningMessage:
       msg.metadata?.reasoning_status === "is_reasoning" ||
-      msg.content?.content_type === "thoughts";
-
-    //
-    // USER or SYSTEM messages
-    //
-    if (role === "user" || role === "system") {
-      // Check if text is split into parts array
-      if (Array.isArray(msg.content?.parts)) {
-        for (const part of msg.content.parts) {
-          if (typeof part === "string") {
-            contentTokens += await countTextTokens(part);
-          } else if (part && typeof part === "object") {
-            // Possibly an image or unknown object
-            if (
-              part.asset_pointer ||
-              part.content_type === "image_asset_pointer"
-            ) {
-              const w = part.width || 1024;
-              const h = part.height || 1024;
-              contentTokens += await countImageTokens(w, h, "high");
-            } else {
-              contentTokens += 20; // fallback for unknown
+      msg.content?.content_type === "thoughts",
+    isReasoningRecap,
+    isFinalMessage: msg?.end_turn || msg?.channel === "final",
+  };
+  const queueText = (text: string, field: TokenCountField) =>
+    queueTextTokens(batch, text, tokenized, field);
+
+  //
+  // USER or SYSTEM messages
+  //
+  if (role === "user" || role === "system") {
+    // Check if text is split into parts array
+    if (Array.isArray(msg.content?.parts)) {
+      for (const part of msg.content.parts) {
+        if (typeof part === "string") {
+          queueText(part, "contentTokens");
+        } else if (part && typeof part === "object") {
+          // Possibly an image or unknown object
+          if (
+            part.asset_pointer ||
+            part.content_type === "image_asset_pointer"
+          ) {
+            const w = part.width || 1024;
+            const h = part.height || 1024;
+            const imageTokens = await countImageTokens(w, h, "high");
+            tokenized.contentTokens += imageTokens;
+            if (!part.width || !part.height) {
+              tokenized.defaultedTokens += imageTokens;
             }
+          } else {
+            tokenized.contentTokens += 20; // fallback for unknown
+            tokenized.defaultedTokens += 20;
           }
         }
-      } else if (msg.content?.text) {
-        contentTokens += await countTextTokens(msg.content.text);
       }
+    } else if (msg.content?.text) {
+      queueText(msg.content.text, "contentTokens");
+    }
 
-      // Some system messages reference about_model_message
-      const aboutModelMsg =
-        msg.metadata?.user_context_message_data?.about_model_message;
-      if (aboutModelMsg) {
-        contentTokens += await countTextTokens(aboutModelMsg);
-      }
+    // Some system messages reference about_model_message
+    const aboutModelMsg =
+      msg.metadata?.user_context_message_data?.about_model_message;
+    if (aboutModelMsg) {
+      queueText(aboutModelMsg, "contentTokens");
     }
+  }
 
-    //
-    // TOOL MESSAGES (search results, image generation, etc.)
-    //
-    if (role === "tool") {
-      // Possibly a search result
-      if (msg.metadata?.search_result_groups) {
-        try {
-          const searchResultsText = JSON.stringify(
-            msg.metadata.search_result_groups
-          );
-          searchTokens = await countTextTokens(searchResultsText);
-        } catch (err) {
-          console.warn(
-            `Could not tokenize search_result_groups for node ${nodeKey}:`,
-            err
-          );
-        }
+  //
+  // TOOL MESSAGES (search results, image generation, etc.)
+  //
+  if (role === "tool") {
+    // Possibly a search result
+    if (msg.metadata?.search_result_groups) {
+      try {
+        const searchResultsText = JSON.stringify(
+          msg.metadata.search_result_groups
+        );
+        queueText(searchResultsText, "searchTokens");
+      } catch (err) {
+        console.warn(
+          `Could not tokenize search_result_groups for message ${messageKey}:`,
+          err
+        );
       }
+    }
 
-      // Also parse the tool's own content
-      if (Array.isArray(msg.content?.parts)) {
-        for (const part of msg.content.parts) {
-          if (typeof part === "string") {
-            contentTokens += await countTextTokens(part);
-          }
+    // Also parse the tool's own content
+    if (Array.isArray(msg.content?.parts)) {
+      for (const part of msg.content.parts) {
+        if (typeof part === "string") {
+          queueText(part, "contentTokens");
         }
       }
+    }
 
-      // DALL·E detection
-      if (authorName === "dalle.text2im") {
-        // Count how many images
-        const partsArray = msg.content?.parts ?? [];
-        const numDalleImages = partsArray.filter(
-          (p: any) => p?.content_type === "image_asset_pointer"
-        ).length;
-        if (numDalleImages > 0) {
-          // We'll treat them as dalle-3
-          updateAggregatorUsage(
-            aggregator,
-            dayKey,
-            hour,
-            "dalle-3",
-            0,
-            numDalleImages
-          );
-          modelsUsed.add("dalle-3");
-        }
+    // DALL·E detection
+    if (authorName === "dalle.text2im") {
+      // Count how many images
+      const partsArray = msg.content?.parts ?? [];
+      const numDalleImages = partsArray.filter(
+        (p: any) => p?.content_type === "image_asset_pointer"
+      ).length;
+      if (numDalleImages > 0) {
+        // We'll treat them as dalle-3
+        generatedImages["dalle-3"] = numDalleImages;
       }
+    }
 
-      // GPT-4o image generation detection
-      const partsArray = Array.isArray(msg.content?.parts)
-        ? msg.content.parts
-        : [];
-      const hasAsyncImageGen =
-        msg.metadata?.image_gen_async ||
-        partsArray.some(
-          (p: any) => p?.content_type === "image_asset_pointer"
-        ) ||
-        msg.metadata?.generation ||
-        partsArray.some((p: any) => p?.metadata?.generation) ||
-        partsArray.some((p: any) => p?.metadata?.dalle);
-
-      if (hasAsyncImageGen) {
-        const numImages = partsArray.filter(
-          (p: any) => p?.content_type === "image_asset_pointer"
-        ).length;
-        if (numImages > 0) {
-          updateAggregatorUsage(
-            aggregator,
-            dayKey,
-            hour,
-            "gpt-image-1",
-            0,
-            numImages
-          );
-          modelsUsed.add("gpt-image-1");
-        }
+    // GPT-4o image generation detection
+    const partsArray = Array.isArray(msg.content?.parts)
+      ? msg.content.parts
+      : [];
+    const hasAsyncImageGen =
+      msg.metadata?.image_gen_async ||
+      partsArray.some((p: any) => p?.content_type === "image_asset_pointer") ||
+      msg.metadata?.generation ||
+      partsArray.some((p: any) => p?.metadata?.generation) ||
+      partsArray.some((p: any) => p?.metadata?.dalle);
+
+    if (hasAsyncImageGen) {
+      const numImages = partsArray.filter(
+        (p: any) => p?.content_type === "image_asset_pointer"
+      ).length;
+      if (numImages > 0) {
+        generatedImages["gpt-image-1"] = numImages;
       }
     }
+  }
 
-    //
-    // ASSISTANT MESSAGES
-    //
-    if (role === "assistant" || role === "tool") {
-      // Reasoning content
-      if (msg.content?.content_type === "thoughts") {
-        if (Array.isArray(msg.content.thoughts)) {
-          for (const thought of msg.content.thoughts) {
-            if (thought.content) {
-              outputTokens += await countTextTokens(thought.content);
-            }
-            if (thought.summary) {
-              outputTokens += await countTextTokens(thought.summary);
-            }
+  //
+  // ASSISTANT MESSAGES
+  //
+  if (role === "assistant" || role === "tool") {
+    // Reasoning content
+    if (msg.content?.content_type === "thoughts") {
+      if (Array.isArray(msg.content.thoughts)) {
+        for (const thought of msg.content.thoughts) {
+          if (thought.content) {
+            queueText(thought.content, "outputTokens");
+          }
+          if (thought.summary) {
+            queueText(thought.summary, "outputTokens");
           }
         }
       }
+    }
 
-      // Code blocks
-      if (msg.content?.content_type === "code" && msg.content.text) {
-        outputTokens += await countTextTokens(msg.content.text);
-      }
+    // Code blocks
+    if (msg.content?.content_type === "code" && msg.content.text) {
+      queueText(msg.content.text, "outputTokens");
+    }
 
-      // Execution output
-      if (
-        msg.content?.content_type === "execution_output" &&
-        msg.content.text
-      ) {
-        contentTokens += await countTextTokens(msg.content.text);
-      }
+    // Execution output
+    if (msg.content?.content_type === "execution_output" && msg.content.text) {
+      queueText(msg.content.text, "contentTokens");
+    }
 
-      // Tether quotes
-      if (msg.content?.content_type === "tether_quote" && msg.content.text) {
-        contentTokens += await countTextTokens(msg.content.text);
-      } else if (
-        msg.content?.content_type === "tether_browsing_display" &&
-        msg.content.result
-      ) {
-        contentTokens += await countTextTokens(msg.content.result);
-      }
+    // Tether quotes
+    if (msg.content?.content_type === "tether_quote" && msg.content.text) {
+      queueText(msg.content.text, "contentTokens");
+    } else if (
+      msg.content?.content_type === "tether_browsing_display" &&
+      msg.content.result
+    ) {
+      queueText(msg.content.result, "contentTokens");
+    }
 
-      // Citations
-      if (
-        Array.isArray(msg.metadata?.citations) &&
-        msg.metadata.citations.length > 0
-      ) {
-        try {
-          const citationsText = JSON.stringify(msg.metadata.citations);
-          contentTokens += await countTextTokens(citationsText);
-        } catch (citationErr) {
-          console.warn("Could not tokenize citations:", citationErr);
-        }
-        // If the message has some async task referencing deep research, treat model as "research"
-        if (msg.metadata?.async_task_id?.includes("deepresch")) {
-          modelSlug = "research";
-        }
+    // Citations
+    if (
+      Array.isArray(msg.metadata?.citations) &&
+      msg.metadata.citations.length > 0
+    ) {
+      try {
+        const citationsText = JSON.stringify(msg.metadata.citations);
+        queueText(citationsText, "contentTokens");
+      } catch (citationErr) {
+        console.warn("Could not tokenize citations:", citationErr);
       }
+      // If the message has some async task referencing deep research, treat model as "research"
+      if (msg.metadata?.async_task_id?.includes("deepresch")) {
+        tokenized.model_slug = "research";
+      }
+    }
 
-      // Parts array
-      if (Array.isArray(msg.content?.parts)) {
-        for (const part of msg.content.parts) {
-          if (typeof part === "string") {
-            outputTokens += await countTextTokens(part);
-          } else if (part && typeof part === "object") {
-            // Possibly an image
-            if (
-              part.asset_pointer ||
-              part.content_type === "image_asset_pointer"
-            ) {
-              const w = part.width || 1024;
-              const h = part.height || 1024;
-              contentTokens += await countImageTokens(w, h, "high");
-            } else {
-              outputTokens += 20; // fallback
+    // Parts array
+    if (Array.isArray(msg.content?.parts)) {
+      for (const part of msg.content.parts) {
+        if (typeof part === "string") {
+          // A tool's text was counted as content above
+          if (role === "assistant") queueText(part, "outputTokens");
+        } else if (part && typeof part === "object") {
+          // Possibly an image
+          if (
+            part.asset_pointer ||
+            part.content_type === "image_asset_pointer"
+          ) {
+            const w = part.width || 1024;
+            const h = part.height || 1024;
+            const imageTokens = await countImageTokens(w, h, "high");
+            tokenized.contentTokens += imageTokens;
+            if (!part.width || !part.height) {
+              tokenized.defaultedTokens += imageTokens;
             }
+          } else {
+            tokenized.outputTokens += 20; // fallback
+            tokenized.defaultedTokens += 20;
           }
         }
       }
+    }
 
-      // Any direct text
-      if (msg.content?.text) {
-        outputTokens += await countTextTokens(msg.content.text);
-      }
+    // Any direct text
+    if (msg.content?.text) {
+      queueText(msg.content.text, "outputTokens");
     }
+  }
 
-    // If it's a final reasoning recap, skip it
-    const isReasoningRecap =
-      msg.content?.content_type === "reasoning_recap" ||
-      msg.metadata?.reasoning_status === "reasoning_ended";
-
-    // Append the constructed message
-    nodeMessages.push({
-      role,
-      contentTokens,
-      outputTokens,
-      searchTokens,
-      model_slug: modelSlug,
-      isReasoningMessage,
-      isReasoningRecap,
-      isFinalMessage: msg?.end_turn || msg?.channel === "final",
-    });
+  if (Object.keys(generatedImages).length > 0) {
+    tokenized.generatedImages = generatedImages;
   }
+  return tokenized;
+}
 
-  // Process the flattened messages
-  const usedModelsInFlat = await processFlatMessagesWithTokenCounts(
-    nodeMessages,
-    dayKey,
-    hour,
-    aggregator
-  );
+/**
+ * Process the ordered messages of a normalized conversation.
+ *
+ * This function pre-calculates token usage for each message, then bills the
+ * conversation's turns. Messages that link to a `parent` form a tree, which is
+ * billed according to `branchMode`; other conversations are billed in order
+ * via `processFlatMessagesWithTokenCounts`.
+ *
+ * @param messages          The messages in conversation order
+ * @param fallbackTimestamp Time for messages before the first one with its own
+ *                          `create_time`, in Unix seconds
+ * @param usage             Array collecting the conversation's usage records
+ * @param branchMode        Which branches of a conversation tree to bill
+ * @param currentNode       ID of the conversation's current node, for "active"
+ *                          mode
+ * @param signal            Cancels tokenization
+ * @param accuracy          Collects how reliably the messages' tokens were
+ *                          counted
+ * @returns A set of model slugs used in these messages
+ */
+export async function processMessageList(
+  messages: any[],
+  fallbackTimestamp: number,
+  usage: UsageRecord[],
+  branchMode: BranchMode = DEFAULT_PROCESSING_OPTIONS.branchMode,
+  currentNode?: string,
+  signal?: AbortSignal,
+  accuracy?: TokenAccuracy
+): Promise<Set<string>> {
+  const tokenizedMessages: TokenizedMessage[] = [];
+  const batch: TokenCountBatch = { texts: [], targets: [] };
+  let isTree = false;
+
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+    if (!msg || typeof msg !== "object") continue;
+    if (msg.parent !== undefined) isTree = true;
+    tokenizedMessages.push(
+      await tokenizeMessage(msg, msg.id ?? String(i), batch)
+    );
+  }
 
-  // Combine the models used
-  usedModelsInFlat.forEach((model) => modelsUsed.add(model));
-  return modelsUsed;
+  // Count the whole conversation's texts in a single worker request
+  await countTokenBatch(batch, signal);
+
+  if (accuracy) {
+    for (const message of tokenizedMessages) {
+      const total =
+        message.contentTokens + message.outputTokens + message.searchTokens;
+      accuracy.estimated += message.estimatedTokens;
+      accuracy.defaulted += message.defaultedTokens;
+      accuracy.exact +=
+        total - message.estimatedTokens - message.defaultedTokens;
+    }
+  }
+
+  if (!isTree) {
+    return processFlatMessagesWithTokenCounts(
+      tokenizedMessages,
+      fallbackTimestamp,
+      usage
+    );
+  }
+  if (branchMode === "active") {
+    return processFlatMessagesWithTokenCounts(
+      getActivePath(tokenizedMessages, currentNode),
+      fallbackTimestamp,
+      usage
+    );
+  }
+  return processMessageTree(tokenizedMessages, fallbackTimestamp, usage);
 }
 
 //
@@ -886,68 +1673,533 @@ export async function processMappedMessages(
 //
 
 /**
- * Process an array of conversation objects (OpenAI/ChatGPT export). Scans for
- * new model slugs, aggregates usage by day/hour/model, and calculates total cost.
+ * Process a collection of normalized conversations. Scans for new model slugs,
+ * aggregates usage by day/hour/model, and calculates total cost.
  *
- * @param data Array of conversation objects
+ * Accepts either an in-memory array or an async iterable (e.g. the output of
+ * an importer's `normalize`), in which case each conversation is processed as
+ * soon as it has been parsed and can be released afterwards.
+ *
+ * Progress is reported through `options.onProgress`; for streamed input the
+ * total is estimated with `options.getSourceProgress`.
+ *
+ * @param data    Array or async iterable of normalized conversations
+ * @param options Processing options
  * @returns The fully populated `Aggregator` structure
- * @throws Error if the passed data is not an array
+ * @throws Error if the passed data is neither an array nor an async iterable
+ * @throws The abort reason if `options.signal` is aborted (see `isAbortError`)
  */
-export async function processConversations(data: any[]): Promise<Aggregator> {
-  if (!Array.isArray(data)) {
+export async function processConversations(
+  data: NormalizedConversation[] | AsyncIterable<NormalizedConversation>,
+  options: ProcessingOptions = DEFAULT_PROCESSING_OPTIONS
+): Promise<Aggregator> {
+  if (!Array.isArray(data) && !isAsyncIterable(data)) {
     throw new Error("Expected an array of conversation objects.");
   }
 
+  const conversations: ConversationUsage[] = [];
   const aggregator: Aggregator = {
     usageByDay: {},
     allModelSlugs: new Set<string>(),
     startDate: undefined,
     endDate: undefined,
     totalCostAllModels: 0,
+    timeZone: options.timeZone,
+    conversations,
   };
 
-  // 1) First pass: discover unknown model slugs and add them as zero-cost placeholders
-  scanForModelSlugs(data);
+  const discoveredModelSlugs = new Set<string>();
+  const totalConversations = Array.isArray(data) ? data.length : undefined;
+  const startedAt = Date.now();
+  let tokensCounted = 0;
+  let lastReportedAt = 0;
+
+  const reportProgress = (conversationsDone: number, force = false) => {
+    if (!options.onProgress) return;
+    const now = Date.now();
+    if (!force && now - lastReportedAt < PROGRESS_INTERVAL_MS) return;
+    lastReportedAt = now;
+    options.onProgress(
+      getProcessingProgress(
+        conversationsDone,
+        totalConversations,
+        options.getSourceProgress?.(),
+        tokensCounted,
+        now - startedAt
+      )
+    );
+  };
 
-  // 2) Determine global date range
-  let minTimestamp = Infinity;
-  let maxTimestamp = -Infinity;
-  for (const conversation of data) {
-    if (conversation && typeof conversation.create_time === "number") {
-      minTimestamp = Math.min(minTimestamp, conversation.create_time);
-      maxTimestamp = Math.max(maxTimestamp, conversation.create_time);
+  // Conversations are tokenized a few at a time to keep every worker of the
+  // pool busy, but added to the aggregator in their original order, so the
+  // result doesn't depend on which worker answers first. Skipped
+  // conversations hold their place as null.
+  const concurrency = getTokenizerPoolSize() * 2;
+  const inFlight: Promise<ConversationUsage | null>[] = [];
+  let conversationsDone = 0;
+
+  const addNextConversation = async () => {
+    const conversationUsage = await inFlight.shift()!;
+    if (conversationUsage) {
+      addConversationUsage(aggregator, conversationUsage);
+      conversations.push(conversationUsage);
+      conversationUsage.models.forEach((slug) =>
+        aggregator.allModelSlugs?.add(slug)
+      );
+      const { accuracy } = conversationUsage;
+      if (accuracy) {
+        tokensCounted +=
+          accuracy.exact + accuracy.estimated + accuracy.defaulted;
+      }
+    }
+    reportProgress(++conversationsDone);
+  };
+
+  // Process each conversation, updating the aggregator
+  let i = 0;
+  reportProgress(0, true);
+  for await (const conversation of data) {
+    options.signal?.throwIfAborted();
+    const index = i++;
+    if (!conversation || !Array.isArray(conversation.messages)) {
+      console.warn(`Skipping invalid conversation at index ${index}.`);
+      inFlight.push(Promise.resolve(null));
+    } else {
+      // Discover model slugs as we go
+      collectModelSlugs(conversation, discoveredModelSlugs);
+
+      const conversationUsage = getConversationUsage(conversation, options);
+      // Failures are thrown once it's this conversation's turn to be added
+      conversationUsage.catch(() => {});
+      inFlight.push(conversationUsage);
+    }
+
+    while (inFlight.length >= concurrency) {
+      await addNextConversation();
     }
   }
-  if (minTimestamp !== Infinity) {
-    aggregator.startDate = getDayKey(minTimestamp);
-    aggregator.endDate = getDayKey(maxTimestamp);
+  while (inFlight.length > 0) {
+    await addNextConversation();
+  }
+  reportProgress(conversationsDone, true);
+
+  // Register any unknown model slugs as zero-cost placeholders
+  registerModelSlugs(discoveredModelSlugs);
+
+  finalizeAggregator(aggregator);
+
+  console.log("Aggregation complete. Final aggregator:", aggregator);
+  return aggregator;
+}
+
+/**
+ * Work out the total and ETA for a progress report. Streamed input has no
+ * known total, so it is extrapolated from how far through the source it is.
+ */
+function getProcessingProgress(
+  conversationsDone: number,
+  totalConversations: number | undefined,
+  sourceProgress: number | undefined,
+  tokensCounted: number,
+  elapsedMs: number
+): ProcessingProgress {
+  let fractionDone: number | undefined;
+  let isTotalEstimated = false;
+  if (totalConversations !== undefined) {
+    fractionDone =
+      totalConversations > 0 ? conversationsDone / totalConversations : 1;
+  } else if (sourceProgress !== undefined && sourceProgress > 0) {
+    fractionDone = Math.min(sourceProgress, 1);
+    totalConversations = Math.max(
+      conversationsDone,
+      Math.round(conversationsDone / fractionDone)
+    );
+    isTotalEstimated = fractionDone < 1;
+  }
+
+  return {
+    conversationsDone,
+    totalConversations,
+    isTotalEstimated,
+    tokensCounted,
+    elapsedMs,
+    etaMs:
+      fractionDone !== undefined && fractionDone > 0
+        ? (elapsedMs * (1 - fractionDone)) / fractionDone
+        : undefined,
+  };
+}
+
+/**
+ * Re-bucket an aggregate into another timezone. Days and hours are rebuilt from
+ * the per-conversation usage kept in `aggregator.conversations`, so nothing is
+ * re-tokenized.
+ *
+ * @param aggregator An aggregate returned by `processConversations`
+ * @param timeZone   IANA timezone; the browser's local timezone if unset
+ * @returns A new aggregate bucketed in `timeZone`
+ * @throws Error if the aggregate has no per-conversation usage
+ */
+export function rebucketAggregator(
+  aggregator: Aggregator,
+  timeZone?: string
+): Aggregator {
+  if (!aggregator.conversations) {
+    throw new Error(
+      "This aggregate has no per-conversation usage to re-bucket."
+    );
+  }
+
+  const rebucketed: Aggregator = {
+    usageByDay: {},
+    allModelSlugs: new Set(aggregator.allModelSlugs),
+    startDate: undefined,
+    endDate: undefined,
+    totalCostAllModels: 0,
+    timeZone,
+    conversations: aggregator.conversations,
+  };
+  for (const conversationUsage of aggregator.conversations) {
+    addConversationUsage(rebucketed, conversationUsage);
+  }
+
+  finalizeAggregator(rebucketed);
+  return rebucketed;
+}
+
+/**
+ * Restrict an aggregate to a range of days (in its timezone). Like
+ * `rebucketAggregator`, the days are rebuilt from `aggregator.conversations`;
+ * conversations are counted on the day they were created, so those created
+ * before `fromDay` only contribute their usage within the range.
+ *
+ * @param aggregator An aggregate returned by `processConversations`
+ * @param fromDay    First day to keep (`YYYY-MM-DD`), or unbounded if unset
+ * @param toDay      Last day to keep (`YYYY-MM-DD`), or unbounded if unset
+ * @returns A new aggregate covering only the days in the range
+ * @throws Error if the aggregate has no per-conversation usage
+ */
+export function filterAggregatorByDate(
+  aggregator: Aggregator,
+  fromDay?: string,
+  toDay?: string
+): Aggregator {
+  if (!aggregator.conversations) {
+    throw new Error("This aggregate has no per-conversation usage to filter.");
+  }
+
+  const { timeZone } = aggregator;
+  const isInRange = (dayKey: string) =>
+    (!fromDay || dayKey >= fromDay) && (!toDay || dayKey <= toDay);
+
+  const conversations: ConversationUsage[] = [];
+  for (const conversationUsage of aggregator.conversations) {
+    const usage = conversationUsage.usage.filter((record) =>
+      isInRange(getDayKey(record.timestamp, timeZone))
+    );
+    if (
+      usage.length > 0 ||
+      isInRange(getDayKey(conversationUsage.create_time, timeZone))
+    ) {
+      conversations.push({ ...conversationUsage, usage });
+    }
+  }
+
+  const filtered: Aggregator = {
+    usageByDay: {},
+    // Only the models used in range, so that ranges can be compared
+    allModelSlugs: new Set<string>(),
+    startDate: undefined,
+    endDate: undefined,
+    totalCostAllModels: 0,
+    timeZone,
+    conversations,
+  };
+  for (const conversationUsage of conversations) {
+    addConversationUsage(filtered, conversationUsage);
+  }
+  // Drop the creation days of conversations that only have usage in range
+  for (const dayKey of Object.keys(filtered.usageByDay)) {
+    if (!isInRange(dayKey)) delete filtered.usageByDay[dayKey];
+  }
+  Object.values(filtered.usageByDay).forEach((dayBucket) =>
+    Object.keys(dayBucket.models).forEach((slug) =>
+      filtered.allModelSlugs?.add(slug)
+    )
+  );
+
+  finalizeAggregator(filtered);
+  // The date range follows the kept days rather than the creation times
+  const dayKeys = Object.keys(filtered.usageByDay).sort();
+  filtered.startDate = dayKeys[0];
+  filtered.endDate = dayKeys[dayKeys.length - 1];
+  return filtered;
+}
+
+/** How the conversations of several aggregates were merged */
+export interface MergeStats {
+  /** Conversations in each aggregate, in the order given */
+  conversations: number[];
+  /** Conversations of each aggregate kept as the newest copy */
+  kept: number[];
+  /** Older copies left out because a newer one was kept */
+  duplicates: number;
+}
+
+/**
+ * Merge aggregates of overlapping exports, e.g. successive exports of one
+ * account or the exports of a team. Conversations with the same ID are counted
+ * once, from the copy with the latest `update_time` (the later aggregate's on
+ * a tie); conversations without an ID are all kept. Like
+ * `rebucketAggregator`, the days are rebuilt from `aggregator.conversations`.
+ *
+ * @param aggregators Aggregates returned by `processConversations`, bucketed
+ *   in the same timezone
+ * @returns The merged aggregate, and how many conversations each contributed
+ * @throws Error if an aggregate has no per-conversation usage
+ */
+export function mergeAggregators(aggregators: Aggregator[]): {
+  aggregator: Aggregator;
+  stats: MergeStats;
+} {
+  // The newest copy of each conversation, with the aggregate it came from
+  const newest = new Map<
+    string,
+    { conversationUsage: ConversationUsage; source: number }
+  >();
+  const withoutId: { conversationUsage: ConversationUsage; source: number }[] =
+    [];
+  const stats: MergeStats = {
+    conversations: aggregators.map(() => 0),
+    kept: aggregators.map(() => 0),
+    duplicates: 0,
+  };
+
+  aggregators.forEach((aggregator, source) => {
+    if (!aggregator.conversations) {
+      throw new Error("This aggregate has no per-conversation usage to merge.");
+    }
+    for (const conversationUsage of aggregator.conversations) {
+      stats.conversations[source]++;
+      if (conversationUsage.id === undefined) {
+        withoutId.push({ conversationUsage, source });
+        continue;
+      }
+      const kept = newest.get(conversationUsage.id);
+      if (
+        !kept ||
+        getUpdateTime(conversationUsage) >=
+          getUpdateTime(kept.conversationUsage)
+      ) {
+        newest.set(conversationUsage.id, { conversationUsage, source });
+      }
+      if (kept) stats.duplicates++;
+    }
+  });
+
+  const merged: Aggregator = {
+    usageByDay: {},
+    allModelSlugs: new Set<string>(),
+    startDate: undefined,
+    endDate: undefined,
+    totalCostAllModels: 0,
+    timeZone: aggregators[0]?.timeZone,
+    conversations: [],
+  };
+  const keptConversations = Array.from(newest.values()).concat(withoutId);
+  for (const { conversationUsage, source } of keptConversations) {
+    stats.kept[source]++;
+    addConversationUsage(merged, conversationUsage);
+    merged.conversations!.push(conversationUsage);
+    conversationUsage.models.forEach((slug) => merged.allModelSlugs?.add(slug));
+  }
+
+  finalizeAggregator(merged);
+  return { aggregator: merged, stats };
+}
+
+/** What `applyConversations` did with the conversations it was given */
+export interface ApplyStats {
+  /** Conversations that weren't in the aggregate yet */
+  added: number;
+  /** Conversations whose older copy was replaced */
+  updated: number;
+  /**
+   * Conversations skipped as the aggregate already has this copy or a newer
+   * one, or a newer copy was given too
+   */
+  unchanged: number;
+}
+
+/**
+ * Update an aggregate with the conversations of a newer export, e.g. one
+ * restored from a snapshot. Only conversations that are new, or whose
+ * `update_time` moved forward, are tokenized; the contribution of a changed
+ * conversation's older copy is subtracted before the new one is added.
+ * Conversations are matched by ID, so those without one are always added.
+ *
+ * The aggregate is updated in place, but its `conversations` array is
+ * replaced rather than changed, as copies made with `rebucketAggregator` share
+ * it.
+ *
+ * @param aggregator An aggregate returned by `processConversations`
+ * @param data       Array or async iterable of normalized conversations
+ * @param options    Processing options; the branch mode should match the one
+ *   the aggregate was built with, and the timezone is always the aggregate's
+ * @returns How many conversations were added, updated and left unchanged
+ * @throws Error if the aggregate has no per-conversation usage, or the passed
+ *   data is neither an array nor an async iterable
+ * @throws The abort reason if `options.signal` is aborted (see `isAbortError`)
+ */
+export async function applyConversations(
+  aggregator: Aggregator,
+  data: NormalizedConversation[] | AsyncIterable<NormalizedConversation>,
+  options: ProcessingOptions = DEFAULT_PROCESSING_OPTIONS
+): Promise<ApplyStats> {
+  if (!aggregator.conversations) {
+    throw new Error("This aggregate has no per-conversation usage to update.");
+  }
+  if (!Array.isArray(data) && !isAsyncIterable(data)) {
+    throw new Error("Expected an array of conversation objects.");
+  }
+
+  const conversations = aggregator.conversations.slice();
+  const indexById = new Map<string, number>();
+  conversations.forEach((conversationUsage, index) => {
+    if (conversationUsage.id !== undefined) {
+      indexById.set(conversationUsage.id, index);
+    }
+  });
+  const stats: ApplyStats = { added: 0, updated: 0, unchanged: 0 };
+
+  const isNewOrChanged = (conversation: NormalizedConversation) => {
+    const index =
+      conversation?.id === undefined
+        ? undefined
+        : indexById.get(conversation.id);
+    if (index === undefined) return true;
+    const updateTime = isValidTimestamp(conversation.update_time)
+      ? conversation.update_time
+      : conversation.create_time;
+    // Without any timestamp there's no telling, so it is counted again
+    if (
+      isValidTimestamp(updateTime) &&
+      updateTime <= getUpdateTime(conversations[index])
+    ) {
+      stats.unchanged++;
+      return false;
+    }
+    return true;
+  };
+  async function* selectNewOrChanged(
+    source: AsyncIterable<NormalizedConversation>
+  ) {
+    for await (const conversation of source) {
+      if (isNewOrChanged(conversation)) yield conversation;
+    }
   }
 
-  // 3) Process each conversation, updating the aggregator
-  for (let i = 0; i < data.length; i++) {
-    const conversation = data[i];
-    if (!conversation || typeof conversation !== "object") {
-      console.warn(`Skipping invalid conversation at index ${i}.`);
+  // Tokenize just the new and changed conversations
+  const changes = await processConversations(
+    Array.isArray(data)
+      ? data.filter(isNewOrChanged)
+      : selectNewOrChanged(data),
+    { ...options, timeZone: aggregator.timeZone }
+  );
+
+  // Conversations found more than once in `data` are applied once, from the
+  // copy with the latest `update_time` (the later one on a tie)
+  const newestChanges = new Map<string, ConversationUsage>();
+  const changesWithoutId: ConversationUsage[] = [];
+  for (const conversationUsage of changes.conversations!) {
+    if (conversationUsage.id === undefined) {
+      changesWithoutId.push(conversationUsage);
       continue;
     }
-    const modelsInThisConversation = await processConversation(
-      conversation,
-      aggregator
-    );
-    modelsInThisConversation.forEach((slug) =>
+    const kept = newestChanges.get(conversationUsage.id);
+    if (!kept || getUpdateTime(conversationUsage) >= getUpdateTime(kept)) {
+      newestChanges.set(conversationUsage.id, conversationUsage);
+    }
+    if (kept) stats.unchanged++;
+  }
+
+  // Only compared with the conversations the aggregate had before
+  const emptiedDays = new Set<string>();
+  const applied = Array.from(newestChanges.values()).concat(changesWithoutId);
+  for (const conversationUsage of applied) {
+    const index =
+      conversationUsage.id === undefined
+        ? undefined
+        : indexById.get(conversationUsage.id);
+    if (index === undefined) {
+      conversations.push(conversationUsage);
+      stats.added++;
+    } else {
+      removeConversationUsage(aggregator, conversations[index], emptiedDays);
+      conversations[index] = conversationUsage;
+      stats.updated++;
+    }
+    addConversationUsage(aggregator, conversationUsage);
+    conversationUsage.models.forEach((slug) =>
       aggregator.allModelSlugs?.add(slug)
     );
   }
 
-  // 4) Calculate total cost across all days
+  aggregator.conversations = conversations;
+  dropEmptyDays(aggregator, emptiedDays);
+  finalizeAggregator(aggregator);
+  return stats;
+}
+
+/**
+ * Get when a conversation was last updated, falling back to its creation.
+ */
+function getUpdateTime(conversationUsage: ConversationUsage): number {
+  return conversationUsage.update_time ?? conversationUsage.create_time;
+}
+
+/**
+ * Fill in the date range, total cost and token accuracy of an aggregate once
+ * all conversations have been added.
+ */
+function finalizeAggregator(aggregator: Aggregator) {
+  let minTimestamp = Infinity;
+  let maxTimestamp = -Infinity;
+  let tokenAccuracy: TokenAccuracy | undefined;
+  for (const conversationUsage of aggregator.conversations ?? []) {
+    if (conversationUsage.accuracy) {
+      tokenAccuracy ??= { exact: 0, estimated: 0, defaulted: 0 };
+      tokenAccuracy.exact += conversationUsage.accuracy.exact;
+      tokenAccuracy.estimated += conversationUsage.accuracy.estimated;
+      tokenAccuracy.defaulted += conversationUsage.accuracy.defaulted;
+    }
+    minTimestamp = Math.min(minTimestamp, conversationUsage.create_time);
+    maxTimestamp = Math.max(maxTimestamp, conversationUsage.create_time);
+    for (const record of conversationUsage.usage) {
+      minTimestamp = Math.min(minTimestamp, record.timestamp);
+      maxTimestamp = Math.max(maxTimestamp, record.timestamp);
+    }
+  }
+
+  if (minTimestamp !== Infinity) {
+    aggregator.startDate = getDayKey(minTimestamp, aggregator.timeZone);
+    aggregator.endDate = getDayKey(maxTimestamp, aggregator.timeZone);
+  }
+  aggregator.tokenAccuracy = tokenAccuracy;
+
+  // Calculate total cost across all days
   let totalCost = 0;
   for (const dayKey in aggregator.usageByDay) {
     totalCost += aggregator.usageByDay[dayKey].total.cost;
   }
   aggregator.totalCostAllModels = totalCost;
+}
 
-  console.log("Aggregation complete. Final aggregator:", aggregator);
-  return aggregator;
+/**
+ * Check whether a value can be consumed with `for await`.
+ */
+function isAsyncIterable(value: any): value is AsyncIterable<any> {
+  return value != null && typeof value[Symbol.asyncIterator] === "function";
 }
 
 //
@@ -959,11 +2211,14 @@ export async function processConversations(data: any[]): Promise<Aggregator> {
  * are not yet in `MODEL_COSTS` or `IMAGE_MODEL_COSTS`. If a new slug is found,
  * a zero-cost placeholder is added to `MODEL_COSTS`.
  *
- * @param data    The array of conversation objects to scan
+ * @param data    The array of normalized conversations to scan
  * @param maxScan (Optional) Limit the number of conversations to scan
  * @returns A set of all discovered model slugs
  */
-export function scanForModelSlugs(data: any[], maxScan?: number): Set<string> {
+export function scanForModelSlugs(
+  data: NormalizedConversation[],
+  maxScan?: number
+): Set<string> {
   const foundModels = new Set<string>();
   const scanCount = maxScan ? Math.min(data.length, maxScan) : data.length;
 
@@ -971,61 +2226,57 @@ export function scanForModelSlugs(data: any[], maxScan?: number): Set<string> {
     `Scanning ${scanCount} of ${data.length} conversation(s) for model slugs...`
   );
 
-  // Ensure these image models are always recognized
-  foundModels.add("dalle-2");
-  foundModels.add("dalle-3");
-  foundModels.add("gpt-image-1");
-
   for (let i = 0; i < scanCount; i++) {
-    const conversation = data[i];
-    if (!conversation || typeof conversation !== "object") continue;
-
-    // ChatGPT-like mapping
-    if (conversation.mapping && typeof conversation.mapping === "object") {
-      for (const nodeKey of Object.keys(conversation.mapping)) {
-        const node = conversation.mapping[nodeKey];
-        const msgModelSlug = node?.message?.metadata?.model_slug;
-        const nodeModelSlug = node?.metadata?.model_slug;
-        if (msgModelSlug) foundModels.add(msgModelSlug);
-        if (nodeModelSlug) foundModels.add(nodeModelSlug);
-
-        // DALL·E or GPT-4o image detection
-        const authorName = node?.message?.author?.name;
-        if (authorName === "dalle.text2im") {
-          foundModels.add("dalle-3");
-        }
-        if (node?.message?.metadata?.image_gen_async) {
-          foundModels.add("gpt-image-1");
-        }
-      }
-    }
-
-    // Direct messages array
-    if (Array.isArray(conversation.messages)) {
-      for (const msg of conversation.messages) {
-        const msgModelSlug = msg?.metadata?.model_slug;
-        if (msgModelSlug) foundModels.add(msgModelSlug);
+    collectModelSlugs(data[i], foundModels);
+  }
 
-        const topModelSlug = msg?.model_slug;
-        if (topModelSlug) foundModels.add(topModelSlug);
+  registerModelSlugs(foundModels);
+  return foundModels;
+}
 
-        const authorName = msg?.author?.name || msg?.name;
-        if (authorName === "dalle.text2im") {
-          foundModels.add("dalle-3");
-        }
-        if (msg?.metadata?.image_gen_async) {
-          foundModels.add("gpt-image-1");
-        }
-      }
+/**
+ * Add every model slug referenced by a single conversation to `foundModels`.
+ *
+ * @param conversation A single normalized conversation
+ * @param foundModels  The set collecting discovered model slugs
+ */
+function collectModelSlugs(
+  conversation: NormalizedConversation,
+  foundModels: Set<string>
+) {
+  for (const msg of conversation.messages) {
+    const msgModelSlug = msg?.metadata?.model_slug;
+    if (msgModelSlug) foundModels.add(msgModelSlug);
+
+    // DALL·E or GPT-4o image detection
+    const authorName = msg?.author?.name;
+    if (authorName === "dalle.text2im") {
+      foundModels.add("dalle-3");
     }
-
-    // Conversation-level default_model_slug
-    const defSlug = conversation.default_model_slug;
-    if (typeof defSlug === "string") {
-      foundModels.add(defSlug);
+    if (msg?.metadata?.image_gen_async) {
+      foundModels.add("gpt-image-1");
     }
   }
 
+  // Conversation-level default_model_slug
+  const defSlug = conversation.default_model_slug;
+  if (typeof defSlug === "string") {
+    foundModels.add(defSlug);
+  }
+}
+
+/**
+ * Add zero-cost placeholders to `MODEL_COSTS` for any discovered slug that has
+ * no pricing yet, logging both missing and unused models.
+ *
+ * @param foundModels The set of model slugs discovered in the dataset
+ */
+function registerModelSlugs(foundModels: Set<string>) {
+  // Ensure these image models are always recognized
+  foundModels.add("dalle-2");
+  foundModels.add("dalle-3");
+  foundModels.add("gpt-image-1");
+
   console.log("Discovered model slugs:", Array.from(foundModels));
 
   // Add missing models to MODEL_COSTS as zero-cost placeholders
@@ -1045,6 +2296,4 @@ export function scanForModelSlugs(data: any[], maxScan?: number): Set<string> {
   if (unused.length > 0) {
     console.log("Models in MODEL_COSTS not found in the dataset:", unused);
   }
-
-  return foundModels;
 }
@@ -0,0 +1,96 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { chatGPTConversation } from "../test/fixtures";
+import {
+  Aggregator,
+  processConversations,
+  setTokenCounter,
+} from "./calculator";
+import {
+  compareDateRanges,
+  formatChange,
+  getAggregateTotals,
+} from "./comparison";
+import { normalizeChatGPTConversation } from "./importers/chatgpt";
+
+/** 2023-11-14 00:00 UTC */
+const NOV_14 = 1699920000;
+const WEEK = 7 * 86400;
+
+let aggregator: Aggregator;
+
+beforeAll(async () => {
+  setTokenCounter((texts) => texts.map((text) => text.split(" ").length));
+  aggregator = await processConversations(
+    [
+      chatGPTConversation("a", [
+        { prompt: "one two", response: "three", time: NOV_14 },
+      ]),
+      chatGPTConversation("b", [
+        {
+          prompt: "four",
+          response: "five six",
+          model: "gpt-4",
+          time: NOV_14 + WEEK,
+        },
+      ]),
+    ].map((conversation) => normalizeChatGPTConversation(conversation)!),
+    { branchMode: "all", timeZone: "UTC" }
+  );
+});
+
+describe("formatChange", () => {
+  it.each([
+    [110, 100, "+10%"],
+    [95, 100, "-5.0%"],
+    [100, 100, "±0%"],
+    [100.01, 100, "±0%"],
+    [5, 0, "new"],
+    [0, 0, "±0%"],
+  ])("formats %d against %d as %s", (current, baseline, change) => {
+    expect(formatChange(current, baseline)).toBe(change);
+  });
+});
+
+describe("getAggregateTotals", () => {
+  it("sums the usage of every day, overall and per model", () => {
+    const { total, models } = getAggregateTotals(aggregator);
+    expect(total).toMatchObject({
+      input_tokens: 6,
+      output_tokens: 3,
+      conversation_count: 2,
+    });
+    expect(Object.keys(models).sort()).toEqual(["gpt-4", "gpt-4o"]);
+    expect(models["gpt-4"]).toMatchObject({
+      input_tokens: 3,
+      output_tokens: 2,
+    });
+  });
+});
+
+describe("compareDateRanges", () => {
+  it("lines the baseline up with the current range", () => {
+    const comparison = compareDateRanges(
+      aggregator,
+      { from: "2023-11-21", to: "2023-11-27" },
+      { from: "2023-11-14", to: "2023-11-20" }
+    );
+
+    expect(Object.keys(comparison.current.usageByDay)).toEqual(["2023-11-21"]);
+    expect(Object.keys(comparison.baseline.usageByDay)).toEqual(["2023-11-14"]);
+    expect(comparison.overlay.usageByDay).toEqual({
+      "2023-11-21": comparison.baseline.usageByDay["2023-11-14"],
+    });
+    expect(comparison.overlay.startDate).toBe("2023-11-21");
+    expect(comparison.baselineLabel).toBe("2023-11-14 – 2023-11-20");
+  });
+
+  it("rejects a range that ends before it starts", () => {
+    expect(() =>
+      compareDateRanges(
+        aggregator,
+        { from: "2023-11-21", to: "2023-11-14" },
+        { from: "2023-11-14", to: "2023-11-20" }
+      )
+    ).toThrow("can't end before it starts");
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @file comparison.ts
+ *
+ * Comparing two aggregates, e.g. this quarter with last quarter, or one export
+ * with a colleague's. Both sides are plain `Aggregator`s, so two date ranges of
+ * one analysis and two separate analyses are compared the same way: the
+ * dashboard shows how the totals changed and overlays the baseline on its
+ * timelines.
+ */
+
+import { Aggregator, filterAggregatorByDate } from "./calculator";
+import { addDaysToDayKey, getDaysBetween } from "./timezone";
+
+/** Usage summed over a whole aggregate */
+export interface UsageTotals {
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+  message_count: number;
+  conversation_count: number;
+}
+
+/** Usage summed over a whole aggregate, overall and per model */
+export interface AggregateTotals {
+  total: UsageTotals;
+  models: Record<string, UsageTotals>;
+}
+
+/** An inclusive range of `YYYY-MM-DD` day keys */
+export interface DayRange {
+  from: string;
+  to: string;
+}
+
+/** Two aggregates to compare */
+export interface Comparison {
+  /** The aggregate on display */
+  current: Aggregator;
+  /** The aggregate it is compared with */
+  baseline: Aggregator;
+  /**
+   * `baseline` with its days lined up with `current`'s, for overlaying on
+   * timelines. Date ranges are lined up at their first day; separate analyses
+   * are kept on their own dates.
+   */
+  overlay: Aggregator;
+  currentLabel: string;
+  baselineLabel: string;
+}
+
+/**
+ * Create usage totals with all counts at zero.
+ */
+function createUsageTotals(): UsageTotals {
+  return {
+    input_tokens: 0,
+    output_tokens: 0,
+    cost: 0,
+    message_count: 0,
+    conversation_count: 0,
+  };
+}
+
+/**
+ * Add the usage of one bucket to running totals.
+ */
+function addToUsageTotals(totals: UsageTotals, usage: UsageTotals) {
+  totals.input_tokens += usage.input_tokens;
+  totals.output_tokens += usage.output_tokens;
+  totals.cost += usage.cost;
+  totals.message_count += usage.message_count;
+  totals.conversation_count += usage.conversation_count;
+}
+
+/**
+ * Sum the usage of an aggregate over all of its days.
+ */
+export function getAggregateTotals(aggregator: Aggregator): AggregateTotals {
+  const totals: AggregateTotals = { total: createUsageTotals(), models: {} };
+  Object.values(aggregator.usageByDay).forEach((dayBucket) => {
+    addToUsageTotals(totals.total, dayBucket.total);
+    Object.entries(dayBucket.models).forEach(([slug, usage]) => {
+      if (!totals.models[slug]) {
+        totals.models[slug] = createUsageTotals();
+      }
+      addToUsageTotals(totals.models[slug], usage);
+    });
+  });
+  return totals;
+}
+
+/**
+ * Format the change from a baseline value for display, e.g. "+12%" or "-3.5%".
+ * Values that weren't there before are "new".
+ */
+export function formatChange(current: number, baseline: number): string {
+  if (baseline === 0) {
+    return current === 0 ? "±0%" : "new";
+  }
+  const percent = ((current - baseline) / Math.abs(baseline)) * 100;
+  const rounded =
+    Math.abs(percent) < 10
+      ? percent.toFixed(1)
+      : Math.round(percent).toString();
+  if (Number(rounded) === 0) return "±0%";
+  return `${percent > 0 ? "+" : ""}${rounded}%`;
+}
+
+/**
+ * Move every day of an aggregate by a number of days. The per-conversation
+ * usage is left out, as its timestamps aren't moved along.
+ */
+function shiftAggregatorDays(aggregator: Aggregator, days: number): Aggregator {
+  if (days === 0) return aggregator;
+
+  const usageByDay: Aggregator["usageByDay"] = {};
+  Object.entries(aggregator.usageByDay).forEach(([dayKey, dayBucket]) => {
+    usageByDay[addDaysToDayKey(dayKey, days)] = dayBucket;
+  });
+  return {
+    ...aggregator,
+    usageByDay,
+    startDate: aggregator.startDate
+      ? addDaysToDayKey(aggregator.startDate, days)
+      : undefined,
+    endDate: aggregator.endDate
+      ? addDaysToDayKey(aggregator.endDate, days)
+      : undefined,
+    conversations: undefined,
+  };
+}
+
+/**
+ * Compare two separate analyses, e.g. two people's exports.
+ */
+export function compareAggregators(
+  current: Aggregator,
+  baseline: Aggregator,
+  labels: { current: string; baseline: string }
+): Comparison {
+  return {
+    current,
+    baseline,
+    overlay: baseline,
+    currentLabel: labels.current,
+    baselineLabel: labels.baseline,
+  };
+}
+
+/**
+ * Compare two date ranges of one analysis, e.g. this quarter with the last.
+ *
+ * @param aggregator An aggregate returned by `processConversations`
+ * @param current    The range to display
+ * @param baseline   The range to compare it with
+ * @throws Error if a range ends before it starts, or the aggregate has no
+ *   per-conversation usage to filter
+ */
+export function compareDateRanges(
+  aggregator: Aggregator,
+  current: DayRange,
+  baseline: DayRange
+): Comparison {
+  if (current.from > current.to || baseline.from > baseline.to) {
+    throw new Error("A date range can't end before it starts.");
+  }
+
+  const baselineAggregator = filterAggregatorByDate(
+    aggregator,
+    baseline.from,
+    baseline.to
+  );
+  return {
+    current: filterAggregatorByDate(aggregator, current.from, current.to),
+    baseline: baselineAggregator,
+    overlay: shiftAggregatorDays(
+      baselineAggregator,
+      getDaysBetween(baseline.from, current.from)
+    ),
+    currentLabel: formatDayRange(current),
+    baselineLabel: formatDayRange(baseline),
+  };
+}
+
+/**
+ * Format a range of days for display, e.g. "2025-01-01 – 2025-03-31".
+ */
+function formatDayRange(range: DayRange): string {
+  return `${range.from} – ${range.to}`;
+}
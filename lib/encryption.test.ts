@@ -0,0 +1,55 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  decryptText,
+  encryptText,
+  isEncryptionSetUp,
+  removeEncryption,
+  setUpEncryption,
+  unlockEncryption,
+} from "./encryption";
+
+beforeEach(() => removeEncryption());
+
+describe("passphrase", () => {
+  it("unlocks the data encrypted with its key", async () => {
+    const key = await setUpEncryption("correct horse");
+    const payload = await encryptText(key, "secret");
+    expect(await isEncryptionSetUp()).toBe(true);
+
+    const unlocked = await unlockEncryption("correct horse");
+    expect(await decryptText(unlocked, payload)).toBe("secret");
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    await setUpEncryption("correct horse");
+    await expect(unlockEncryption("battery staple")).rejects.toThrow(
+      "Wrong passphrase."
+    );
+  });
+
+  it("can't be unlocked once removed", async () => {
+    await setUpEncryption("correct horse");
+    await removeEncryption();
+    expect(await isEncryptionSetUp()).toBe(false);
+    await expect(unlockEncryption("correct horse")).rejects.toThrow(
+      "No passphrase"
+    );
+  });
+});
+
+describe("encryptText", () => {
+  it("rejects tampered data", async () => {
+    const key = await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+    const payload = await encryptText(key, "secret");
+    const data = new Uint8Array(payload.data.slice(0));
+    data[0] ^= 1;
+    await expect(
+      decryptText(key, { ...payload, data: data.buffer })
+    ).rejects.toThrow("Could not decrypt");
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @file encryption.ts
+ *
+ * Optional passphrase protection for what is kept on this device (the
+ * remembered analysis and the persisted token counts). A key is derived from
+ * the passphrase with PBKDF2 and data is encrypted with AES-GCM, both through
+ * WebCrypto. Only the salt and an encrypted check value are stored, so the
+ * passphrase itself never is, and it can't be recovered if forgotten.
+ */
+
+import {
+  openDatabase,
+  requestToPromise,
+  STORES,
+  transactionDone,
+} from "./indexedDB";
+
+/** PBKDF2 iterations for new passphrases (OWASP's figure for SHA-256) */
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+/** AES-GCM's recommended nonce size */
+const IV_BYTES = 12;
+/** Key of the encryption settings in the settings store */
+const ENCRYPTION_SETTINGS_KEY = "encryption";
+/** Encrypted with the key to tell a wrong passphrase from a right one */
+const CHECK_VALUE = "what-the-token";
+
+/** Data encrypted with AES-GCM */
+export interface EncryptedPayload {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+/** How the passphrase key is derived, as stored */
+interface EncryptionSettings {
+  salt: Uint8Array;
+  iterations: number;
+  /** `CHECK_VALUE`, encrypted with the key */
+  check: EncryptedPayload;
+}
+
+/**
+ * Check whether WebCrypto can be used in this environment. It is only
+ * available in secure contexts (HTTPS or localhost).
+ */
+export function isEncryptionAvailable(): boolean {
+  return typeof crypto !== "undefined" && crypto.subtle !== undefined;
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase.
+ */
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypt a text with a key from `setUpEncryption` or `unlockEncryption`.
+ */
+export async function encryptText(
+  key: CryptoKey,
+  text: string
+): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  return { iv, data };
+}
+
+/**
+ * Decrypt a text encrypted with `encryptText`.
+ * @throws Error if the key is wrong or the data was tampered with
+ */
+export async function decryptText(
+  key: CryptoKey,
+  payload: EncryptedPayload
+): Promise<string> {
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: payload.iv },
+      key,
+      payload.data
+    );
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error("Could not decrypt the data stored on this device.");
+  }
+}
+
+/**
+ * Read the stored encryption settings.
+ * @returns The settings, or undefined if no passphrase has been set
+ */
+async function getEncryptionSettings(): Promise<
+  EncryptionSettings | undefined
+> {
+  const database = await openDatabase();
+  return requestToPromise(
+    database
+      .transaction(STORES.settings, "readonly")
+      .objectStore(STORES.settings)
+      .get(ENCRYPTION_SETTINGS_KEY)
+  );
+}
+
+/**
+ * Check whether a passphrase protects the data on this device.
+ */
+export async function isEncryptionSetUp(): Promise<boolean> {
+  return (await getEncryptionSettings()) !== undefined;
+}
+
+/**
+ * Protect the data on this device with a new passphrase. Data stored so far
+ * has to be re-saved with the returned key by its owner.
+ *
+ * @param passphrase The new passphrase
+ * @returns The key to encrypt data with
+ * @throws Error if WebCrypto or IndexedDB are unavailable
+ */
+export async function setUpEncryption(passphrase: string): Promise<CryptoKey> {
+  if (!isEncryptionAvailable()) {
+    throw new Error("Encryption is not available in this browser.");
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const settings: EncryptionSettings = {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptText(key, CHECK_VALUE),
+  };
+
+  const database = await openDatabase();
+  const transaction = database.transaction(STORES.settings, "readwrite");
+  transaction
+    .objectStore(STORES.settings)
+    .put(settings, ENCRYPTION_SETTINGS_KEY);
+  await transactionDone(transaction);
+  return key;
+}
+
+/**
+ * Derive the key of the data on this device from its passphrase.
+ *
+ * @param passphrase The passphrase given to `setUpEncryption`
+ * @returns The key to decrypt (and encrypt) data with
+ * @throws Error if the passphrase is wrong or no passphrase has been set
+ */
+export async function unlockEncryption(passphrase: string): Promise<CryptoKey> {
+  const settings = await getEncryptionSettings();
+  if (!settings) {
+    throw new Error("No passphrase has been set on this device.");
+  }
+  const key = await deriveKey(passphrase, settings.salt, settings.iterations);
+  try {
+    if ((await decryptText(key, settings.check)) === CHECK_VALUE) return key;
+  } catch {
+    // Handled below
+  }
+  throw new Error("Wrong passphrase.");
+}
+
+/**
+ * Remove the passphrase. Encrypted data has to be re-saved without a key (or
+ * deleted) by its owner.
+ */
+export async function removeEncryption(): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(STORES.settings, "readwrite");
+  transaction.objectStore(STORES.settings).delete(ENCRYPTION_SETTINGS_KEY);
+  await transactionDone(transaction);
+}
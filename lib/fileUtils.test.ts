@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "../test/zip";
+import { openExportFile, StreamSource, streamJsonArray } from "./fileUtils";
+
+/**
+ * A stream source that delivers `text` in chunks of `chunkSize` bytes.
+ */
+function sourceOf(text: string, chunkSize = Infinity): StreamSource {
+  const bytes = new TextEncoder().encode(text);
+  return {
+    size: bytes.byteLength,
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < bytes.byteLength; i += chunkSize) {
+            controller.enqueue(bytes.slice(i, i + chunkSize));
+          }
+          controller.close();
+        },
+      }),
+  };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe("streamJsonArray", () => {
+  const elements = [
+    { id: "a", title: "brackets ] [ } { and , commas" },
+    {
+      id: "b",
+      text: 'escaped \\" quote ] and backslash \\\\',
+      nested: [[1], {}],
+    },
+    "a string with \\u005d",
+    42,
+    null,
+    { id: "ü", emoji: "🙂 → ✓" },
+  ];
+  const json = JSON.stringify(elements, null, 2);
+
+  it("yields each element of the array in order", async () => {
+    expect(await collect(streamJsonArray(sourceOf(json)))).toEqual(elements);
+  });
+
+  it("handles chunk boundaries inside strings, escapes and characters", async () => {
+    for (const chunkSize of [1, 2, 3, 7]) {
+      expect(await collect(streamJsonArray(sourceOf(json, chunkSize)))).toEqual(
+        elements
+      );
+    }
+  });
+
+  it("reads an empty array", async () => {
+    expect(await collect(streamJsonArray(sourceOf(" [ ] ")))).toEqual([]);
+  });
+
+  it("reports progress up to 100", async () => {
+    const progress: number[] = [];
+    await collect(streamJsonArray(sourceOf(json, 16), (p) => progress.push(p)));
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+
+  it("rejects a truncated array after yielding the complete elements", async () => {
+    const items: unknown[] = [];
+    await expect(async () => {
+      for await (const item of streamJsonArray(sourceOf('[{"a":1},{"b":'))) {
+        items.push(item);
+      }
+    }).rejects.toThrow("Unexpected end of file");
+    expect(items).toEqual([{ a: 1 }]);
+  });
+
+  it("rejects a truncated string", async () => {
+    await expect(
+      collect(streamJsonArray(sourceOf('[{"a":"unterminated ]')))
+    ).rejects.toThrow("Unexpected end of file");
+  });
+
+  it("rejects a top level that isn't an array", async () => {
+    await expect(
+      collect(streamJsonArray(sourceOf('{"conversations":[]}')))
+    ).rejects.toThrow("JSON array");
+  });
+
+  it("rejects an empty file", async () => {
+    await expect(collect(streamJsonArray(sourceOf("  ")))).rejects.toThrow(
+      "No data found"
+    );
+  });
+
+  it("names the element that is invalid JSON", async () => {
+    await expect(
+      collect(streamJsonArray(sourceOf('[{"a":1}, {b:2}]')))
+    ).rejects.toThrow("Invalid JSON in array element 1");
+  });
+});
+
+describe("openExportFile", () => {
+  it("opens a bare conversations file", async () => {
+    const file = new File(["[]"], "conversations.json");
+    const source = await openExportFile(file);
+    expect(source.conversations).toBe(file);
+    expect(source.conversationsPath).toBe("conversations.json");
+    expect(source.files).toEqual({});
+  });
+
+  it("finds conversations.json in an archive and exposes the other files", async () => {
+    const file = new File(
+      [
+        createZip([
+          { name: "chatgpt/conversations.json", contents: "[]" },
+          { name: "chatgpt/user.json", contents: "{}" },
+          { name: "chatgpt/message_feedback.json", contents: "[]" },
+          { name: "chatgpt/file-abc.png", contents: "png" },
+          { name: "elsewhere/notes.txt", contents: "unrelated" },
+        ]),
+      ],
+      "export.zip"
+    );
+
+    const source = await openExportFile(file);
+    expect(source.conversationsPath).toBe("chatgpt/conversations.json");
+    expect(Object.keys(source.files).sort()).toEqual([
+      "file-abc.png",
+      "message_feedback.json",
+      "user.json",
+    ]);
+    expect(await source.files["user.json"].text()).toBe("{}");
+  });
+
+  it("rejects archives without conversations", async () => {
+    const file = new File(
+      [createZip([{ name: "user.json", contents: "{}" }])],
+      "export.zip"
+    );
+    await expect(openExportFile(file)).rejects.toThrow("No conversations.json");
+  });
+
+  it("rejects unsupported file types", async () => {
+    await expect(openExportFile(new File(["x"], "export.txt"))).rejects.toThrow(
+      "Please upload a JSON, HTML or ZIP file."
+    );
+  });
+});
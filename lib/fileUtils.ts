@@ -2,90 +2,229 @@
  * Utilities for file handling with progress tracking
  */
 
+import { isZipFile, readZipEntries, ZipEntry } from "./zipReader";
+
 /**
- * Read a file as text with progress tracking
- * @param file The file to read
- * @param onProgress Progress callback function
- * @returns Promise that resolves with the file content as text
+ * Anything that can be streamed with a known size: a `File`, a `Blob` or a
+ * `ZipEntry` from an uploaded archive.
  */
-export function readFileWithProgress(
-  file: File,
-  onProgress: (progress: number) => void
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    // For small files (< 5MB), just use the standard file reader
-    if (file.size < 5 * 1024 * 1024) {
-      const reader = new FileReader();
-
-      reader.onload = () => {
-        onProgress(100);
-        resolve(reader.result as string);
-      };
-
-      reader.onerror = () => {
-        reject(new Error("Error reading file"));
-      };
-
-      reader.readAsText(file);
-      return;
-    }
+export interface StreamSource {
+  size: number;
+  stream(): ReadableStream<Uint8Array>;
+}
 
-    // For larger files, use a chunked approach
-    const CHUNK_SIZE = 2 * 1024 * 1024; // 2MB chunks
-    const chunks: string[] = [];
-    let offset = 0;
-    let progress = 0;
+/**
+ * An uploaded export, either a bare conversations file or the full archive.
+ */
+export interface ExportSource {
+  /** Name of the uploaded file */
+  name: string;
+  /**
+   * The conversations file contents: `conversations.json` (ChatGPT, Claude) or
+   * `MyActivity.json`/`MyActivity.html` (Google Takeout Gemini Apps)
+   */
+  conversations: StreamSource;
+  /** Path of the conversations file, used to tell JSON from HTML */
+  conversationsPath: string;
+  /**
+   * Every other file in the export (`user.json`, `message_feedback.json`,
+   * image assets, ...), keyed by path relative to the conversations file.
+   * Empty when a bare file was uploaded.
+   */
+  files: Record<string, ZipEntry>;
+}
 
-    const readNextChunk = () => {
-      const slice = file.slice(offset, offset + CHUNK_SIZE);
-      const reader = new FileReader();
+/**
+ * Incrementally parse a JSON file whose top level is an array, yielding each
+ * element as soon as its closing bracket has been read. Only the text of the
+ * element currently being read is held in memory, so peak usage stays at
+ * roughly one conversation regardless of the total file size.
+ * @param file The file, blob or archive entry to read
+ * @param onProgress Progress callback function, called with 0-100
+ * @returns Async generator yielding the parsed array elements in order
+ * @throws Error if the top-level value is not an array or an element is invalid
+ */
+export async function* streamJsonArray<T = any>(
+  file: StreamSource,
+  onProgress?: (progress: number) => void
+): AsyncGenerator<T> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder("utf-8");
+
+  let bytesRead = 0;
+  let lastProgress = -1;
+
+  let started = false; // Seen the opening '[' of the top-level array
+  let finished = false; // Seen the closing ']' of the top-level array
+  let depth = 0; // Bracket depth, the top-level array itself is depth 1
+  let inString = false;
+  let escaped = false;
+
+  // Text of the element currently being read, split across chunk boundaries
+  let pendingParts: string[] = [];
+  let elementIndex = 0;
+
+  const parseElement = (text: string): T => {
+    try {
+      return JSON.parse(text);
+    } catch (err: any) {
+      throw new Error(
+        `Invalid JSON in array element ${elementIndex}: ${err.message}`
+      );
+    }
+  };
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      const chunk = done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      // Start of the current element within this chunk, or -1 if none
+      let elementStart = pendingParts.length > 0 ? 0 : -1;
+
+      for (let i = 0; i < chunk.length && !finished; i++) {
+        const ch = chunk.charCodeAt(i);
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === 0x5c /* backslash */) escaped = true;
+          else if (ch === 0x22 /* " */) inString = false;
+          continue;
+        }
 
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          chunks.push(e.target.result as string);
+        // Whitespace never starts an element
+        if (ch === 0x20 || ch === 0x0a || ch === 0x0d || ch === 0x09) {
+          continue;
         }
 
-        offset += CHUNK_SIZE;
-        progress = Math.min(100, Math.round((offset / file.size) * 100));
-        onProgress(progress);
+        if (!started) {
+          if (ch !== 0x5b /* [ */) {
+            throw new Error(
+              "Expected the file to contain a JSON array of conversations."
+            );
+          }
+          started = true;
+          depth = 1;
+          continue;
+        }
 
-        if (offset < file.size) {
-          readNextChunk();
-        } else {
-          resolve(chunks.join(""));
+        if (depth === 1 && (ch === 0x2c /* , */ || ch === 0x5d) /* ] */) {
+          // End of the current element (if any) at the top level
+          if (elementStart !== -1) {
+            pendingParts.push(chunk.slice(elementStart, i));
+            const text = pendingParts.join("");
+            pendingParts = [];
+            elementStart = -1;
+            yield parseElement(text);
+            elementIndex++;
+          }
+          if (ch === 0x5d) {
+            finished = true;
+            depth = 0;
+          }
+          continue;
         }
-      };
 
-      reader.onerror = () => {
-        reject(new Error("Error reading file chunk"));
-      };
+        if (depth === 1 && elementStart === -1) {
+          elementStart = i;
+        }
 
-      reader.readAsText(slice);
-    };
+        if (ch === 0x22 /* " */) inString = true;
+        else if (ch === 0x7b /* { */ || ch === 0x5b /* [ */) depth++;
+        else if (ch === 0x7d /* } */ || ch === 0x5d /* ] */) depth--;
+      }
+
+      // Carry the unfinished element over to the next chunk
+      if (elementStart !== -1) {
+        pendingParts.push(chunk.slice(elementStart));
+      }
+
+      if (value) {
+        bytesRead += value.byteLength;
+      }
+      const progress = file.size
+        ? Math.min(100, Math.round((bytesRead / file.size) * 100))
+        : 100;
+      if (onProgress && progress !== lastProgress) {
+        lastProgress = progress;
+        onProgress(progress);
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
 
-    readNextChunk();
-  });
+  if (!started) {
+    throw new Error("No data found in file");
+  }
+  if (!finished) {
+    throw new Error("Unexpected end of file while reading the JSON array.");
+  }
 }
 
 /**
- * Validate a file is a proper OpenAI conversations export
- * @param data The parsed JSON data
- * @returns Error message if invalid, or null if valid
+ * Open an uploaded export. Accepts either the conversations file itself or the
+ * `.zip` archive ChatGPT, Claude or Google Takeout deliver, in which case the
+ * conversations file is located inside it and the remaining files are exposed
+ * alongside. Nothing is extracted up front; entries are only read when streamed.
+ * @param file The uploaded file
+ * @returns Promise that resolves with the opened export
+ * @throws Error if the file type is unsupported or the archive has no conversations
  */
-export function validateOpenAIExport(data: any): string | null {
-  if (!data) {
-    return "No data found in file";
+export async function openExportFile(file: File): Promise<ExportSource> {
+  const lowerName = file.name.toLowerCase();
+  if (lowerName.endsWith(".json") || lowerName.endsWith(".html")) {
+    return {
+      name: file.name,
+      conversations: file,
+      conversationsPath: file.name,
+      files: {},
+    };
+  }
+
+  if (!isZipFile(file)) {
+    throw new Error(
+      "Please upload a JSON, HTML or ZIP file. Only .json, .html and .zip files are supported."
+    );
   }
 
-  if (typeof data !== "object") {
-    return "File does not contain valid JSON object";
+  const entries = await readZipEntries(file);
+
+  // Prefer the shallowest match, in case the export was re-zipped inside a
+  // folder. Gemini activity is only used when there is no conversations.json.
+  const findShallowest = (pattern: RegExp) =>
+    entries
+      .filter((entry) => pattern.test(entry.name))
+      .sort((a, b) => a.name.split("/").length - b.name.split("/").length)[0];
+  const conversationsEntry =
+    findShallowest(/(^|\/)conversations\.json$/) ??
+    findShallowest(/(^|\/)Gemini Apps\/MyActivity\.json$/) ??
+    findShallowest(/(^|\/)Gemini Apps\/MyActivity\.html$/);
+
+  if (!conversationsEntry) {
+    throw new Error(
+      "No conversations.json or Gemini Apps activity found inside the ZIP archive."
+    );
   }
 
-  // Check for OpenAI conversation structure
-  // Basic check for common structures in OpenAI exports
-  if (!data.mapping && !data.messages && !Array.isArray(data)) {
-    return "This doesn't appear to be a valid OpenAI conversation export";
+  const root = conversationsEntry.name.slice(
+    0,
+    conversationsEntry.name.lastIndexOf("/") + 1
+  );
+  const files: Record<string, ZipEntry> = {};
+  for (const entry of entries) {
+    if (entry === conversationsEntry || !entry.name.startsWith(root)) continue;
+    files[entry.name.slice(root.length)] = entry;
   }
 
-  return null;
+  return {
+    name: file.name,
+    conversations: conversationsEntry,
+    conversationsPath: conversationsEntry.name,
+    files,
+  };
 }
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { chatGPTConversation } from "../../test/fixtures";
+import {
+  chatGPTImporter,
+  convertFlatMessages,
+  normalizeChatGPTConversation,
+} from "./chatgpt";
+
+describe("normalizeChatGPTConversation", () => {
+  it("links each message to the nearest node that holds a message", () => {
+    const conversation = chatGPTConversation("a", [
+      { prompt: "hello", response: "hi", time: 1700000000 },
+    ]);
+    const normalized = normalizeChatGPTConversation(conversation)!;
+    expect(normalized.id).toBe("a");
+    expect(normalized.create_time).toBe(1700000000);
+    expect(normalized.current_node).toBe("a-a0");
+    expect(
+      normalized.messages.map(({ id, parent }) => ({ id, parent }))
+    ).toEqual([
+      { id: "a-u0", parent: null },
+      { id: "a-a0", parent: "a-u0" },
+    ]);
+  });
+
+  it("copies a model slug stored on the node onto its message", () => {
+    const conversation = chatGPTConversation("a", [
+      { prompt: "hello", response: "hi", time: 1700000000 },
+    ]);
+    delete conversation.mapping["a-a0"].message.metadata;
+    conversation.mapping["a-a0"].metadata = { model_slug: "gpt-4" };
+    const [, response] = normalizeChatGPTConversation(conversation)!.messages;
+    expect(response.metadata.model_slug).toBe("gpt-4");
+  });
+
+  it("skips conversations without messages", () => {
+    expect(normalizeChatGPTConversation({ title: "empty" })).toBeNull();
+  });
+});
+
+describe("convertFlatMessages", () => {
+  it("converts API-style messages and closes assistant turns", () => {
+    const messages = convertFlatMessages(
+      [
+        { role: "developer", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What's this?" },
+            { type: "image_url", width: 512, height: 512 },
+          ],
+          timestamp: "2024-05-01T00:00:00Z",
+        },
+        { role: "assistant", content: "Let me look.", model: "gpt-4o" },
+        { role: "function", name: "vision", content: "a cat" },
+        { role: "assistant", content: "A cat." },
+        { role: "user", content: "Thanks" },
+      ],
+      "gpt-4o-mini"
+    );
+
+    expect(messages.map((message) => message.author.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+      "user",
+    ]);
+    expect(messages[1].create_time).toBe(1714521600);
+    expect(messages[1].content.parts).toEqual([
+      "What's this?",
+      { content_type: "image_asset_pointer", width: 512, height: 512 },
+    ]);
+    expect(messages[2].metadata.model_slug).toBe("gpt-4o");
+    expect(messages[4].metadata.model_slug).toBe("gpt-4o-mini");
+    // Tool output doesn't end the turn; the assistant message after it does
+    expect(messages[2].end_turn).toBe(false);
+    expect(messages[4].end_turn).toBe(true);
+  });
+
+  it("keeps ChatGPT messages, moving a top-level model slug into metadata", () => {
+    const message = {
+      author: { role: "assistant" },
+      content: { content_type: "text", parts: ["hi"] },
+      model_slug: "gpt-4",
+      end_turn: true,
+    };
+    const [converted] = convertFlatMessages([message]);
+    expect(converted).toEqual({
+      ...message,
+      metadata: { model_slug: "gpt-4" },
+    });
+  });
+});
+
+describe("chatGPTImporter.detect", () => {
+  it("is most confident about mapping-based conversations.json files", () => {
+    const mapped = chatGPTConversation("a", []);
+    const flat = { messages: [] };
+    expect(
+      chatGPTImporter.detect({
+        path: "conversations.json",
+        head: "[",
+        firstRecord: mapped,
+      })
+    ).toBe(1);
+    expect(
+      chatGPTImporter.detect({
+        path: "chats.json",
+        head: "[",
+        firstRecord: mapped,
+      })
+    ).toBe(0.9);
+    expect(
+      chatGPTImporter.detect({
+        path: "conversations.json",
+        head: "[",
+        firstRecord: flat,
+      })
+    ).toBe(0.7);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * @file chatgpt.ts
+ *
+ * Importer for ChatGPT data exports. Each conversation in `conversations.json`
+ * stores its messages as a `mapping` of node IDs to nodes, where each node holds
+ * a message plus `parent`/`children` links. Some exports (and tools that
+ * re-export ChatGPT history) instead store a flat `messages` array, either of
+ * ChatGPT messages or of API-style `{ role, content }` messages; both are read
+ * here.
+ */
+
+import { createJsonArrayImporter } from "./jsonArrayImporter";
+import type { NormalizedConversation } from "./types";
+
+/** API roles that ChatGPT exports call something else */
+const FLAT_ROLE_ALIASES: Record<string, string> = {
+  developer: "system",
+  function: "tool",
+};
+
+/**
+ * Check whether a conversation object comes from a ChatGPT export.
+ */
+export function isChatGPTConversation(conversation: any): boolean {
+  return (
+    !!conversation &&
+    typeof conversation === "object" &&
+    !!conversation.mapping &&
+    typeof conversation.mapping === "object"
+  );
+}
+
+/**
+ * Check whether a conversation object stores its messages as a flat array.
+ */
+export function isFlatMessagesConversation(conversation: any): boolean {
+  return (
+    !!conversation &&
+    typeof conversation === "object" &&
+    Array.isArray(conversation.messages)
+  );
+}
+
+/**
+ * Convert a ChatGPT conversation into the normalized shape. Messages are taken
+ * from the mapping nodes in object order, keeping the tree structure in their
+ * `id`/`parent`, or from the flat `messages` array.
+ *
+ * @param conversation A single conversation object from the export
+ * @returns The normalized conversation, or null if it has no messages
+ */
+export function normalizeChatGPTConversation(
+  conversation: any
+): NormalizedConversation | null {
+  let messages: any[];
+  let currentNode: string | undefined;
+  if (isChatGPTConversation(conversation)) {
+    messages = getMappedMessages(conversation.mapping);
+    if (typeof conversation.current_node === "string") {
+      currentNode =
+        findMessageNode(conversation.mapping, conversation.current_node) ??
+        undefined;
+    }
+  } else if (isFlatMessagesConversation(conversation)) {
+    messages = convertFlatMessages(
+      conversation.messages,
+      conversation.default_model_slug
+    );
+  } else {
+    console.warn(
+      "Conversation skipped: No 'mapping' or 'messages' field found.",
+      conversation?.title
+    );
+    return null;
+  }
+
+  return {
+    id: conversation.id ?? conversation.conversation_id,
+    title: conversation.title,
+    create_time:
+      typeof conversation.create_time === "number"
+        ? conversation.create_time
+        : undefined,
+    update_time:
+      typeof conversation.update_time === "number"
+        ? conversation.update_time
+        : undefined,
+    default_model_slug:
+      typeof conversation.default_model_slug === "string"
+        ? conversation.default_model_slug
+        : undefined,
+    current_node: currentNode,
+    messages,
+  };
+}
+
+/**
+ * Collect the messages of a `mapping` in object order. Each message gets the
+ * node key as its `id` and the nearest ancestor node that holds a message as
+ * its `parent`, so empty nodes (such as the root) don't break the tree. A model
+ * slug stored on the node rather than the message is copied onto the message.
+ */
+function getMappedMessages(mapping: any): any[] {
+  const messages: any[] = [];
+  for (const nodeKey of Object.keys(mapping)) {
+    const node = mapping[nodeKey];
+    if (!node?.message) continue;
+
+    const message = {
+      ...node.message,
+      id: nodeKey,
+      parent: findMessageNode(mapping, node.parent),
+    };
+    if (!message.metadata?.model_slug && node.metadata?.model_slug) {
+      message.metadata = {
+        ...message.metadata,
+        model_slug: node.metadata.model_slug,
+      };
+    }
+    messages.push(message);
+  }
+  return messages;
+}
+
+/**
+ * Starting at `nodeKey`, walk up the mapping to the first node that holds a
+ * message.
+ * @returns The key of that node, or null if there is none
+ */
+function findMessageNode(mapping: any, nodeKey: unknown): string | null {
+  const visited = new Set<string>();
+  let key = typeof nodeKey === "string" ? nodeKey : null;
+  while (key !== null && !visited.has(key)) {
+    visited.add(key);
+    const node = mapping[key];
+    if (!node) return null;
+    if (node.message) return key;
+    key = typeof node.parent === "string" ? node.parent : null;
+  }
+  return null;
+}
+
+/**
+ * Convert a flat `messages` array into ChatGPT-style messages.
+ *
+ * Messages that already have an `author` are kept as they are, apart from a
+ * top-level `model_slug` being moved into `metadata`. API-style messages
+ * (`role`, `content` as a string or an array of parts, `model` or
+ * `model_slug`) are converted; when one doesn't say whether it ends the turn,
+ * the last assistant message before the next user message does.
+ *
+ * @param flatMessages     The conversation's `messages` array
+ * @param defaultModelSlug Model for assistant messages that don't name one
+ * @returns An array of ChatGPT-style message objects
+ */
+export function convertFlatMessages(
+  flatMessages: any[],
+  defaultModelSlug?: string
+): any[] {
+  const messages: any[] = [];
+  const convertedMessages = new Set<any>();
+
+  for (const flatMessage of flatMessages) {
+    if (!flatMessage || typeof flatMessage !== "object") continue;
+
+    if (flatMessage.author) {
+      if (!flatMessage.metadata?.model_slug && flatMessage.model_slug) {
+        messages.push({
+          ...flatMessage,
+          metadata: {
+            ...flatMessage.metadata,
+            model_slug: flatMessage.model_slug,
+          },
+        });
+      } else {
+        messages.push(flatMessage);
+      }
+      continue;
+    }
+
+    const role = FLAT_ROLE_ALIASES[flatMessage.role] ?? flatMessage.role;
+    const modelSlug =
+      flatMessage.metadata?.model_slug ??
+      flatMessage.model_slug ??
+      flatMessage.model ??
+      (role === "assistant" ? defaultModelSlug : undefined);
+
+    const message = {
+      id: flatMessage.id,
+      author: { role, name: flatMessage.name },
+      create_time: toUnixSeconds(
+        flatMessage.create_time ?? flatMessage.timestamp
+      ),
+      content: convertFlatContent(flatMessage.content),
+      metadata: {
+        ...flatMessage.metadata,
+        ...(modelSlug ? { model_slug: modelSlug } : {}),
+      },
+      end_turn: flatMessage.end_turn,
+    };
+    messages.push(message);
+    convertedMessages.add(message);
+  }
+
+  // Close each assistant turn that the source didn't mark explicitly
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (
+      !convertedMessages.has(message) ||
+      message.author.role !== "assistant" ||
+      message.end_turn != null
+    ) {
+      continue;
+    }
+    const next = messages.slice(i + 1).find((m) => m.author?.role !== "tool");
+    message.end_turn = !next || next.author?.role !== "assistant";
+  }
+
+  return messages;
+}
+
+/**
+ * Convert a Unix timestamp or an ISO-8601 string to Unix seconds.
+ */
+function toUnixSeconds(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return undefined;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : ms / 1000;
+}
+
+/**
+ * Convert API-style message content (a string, a ChatGPT content object, or an
+ * array of text and image parts) into ChatGPT `content`.
+ */
+function convertFlatContent(content: any): any {
+  if (typeof content === "string") {
+    return { content_type: "text", parts: [content] };
+  }
+  if (content && !Array.isArray(content) && typeof content === "object") {
+    return content;
+  }
+
+  const parts: any[] = [];
+  for (const part of Array.isArray(content) ? content : []) {
+    if (typeof part === "string") {
+      parts.push(part);
+    } else if (part?.type === "text" && typeof part.text === "string") {
+      parts.push(part.text);
+    } else if (
+      part?.type === "image_url" ||
+      part?.type === "image" ||
+      part?.type === "input_image"
+    ) {
+      parts.push({
+        content_type: "image_asset_pointer",
+        width: part.width,
+        height: part.height,
+      });
+    } else if (part && typeof part === "object") {
+      parts.push(part);
+    }
+  }
+  return { content_type: "text", parts };
+}
+
+export const chatGPTImporter = createJsonArrayImporter({
+  id: "chatgpt",
+  name: "ChatGPT export",
+  detect(sample) {
+    const isConversationsFile = /(^|\/)conversations\.json$/i.test(sample.path);
+    if (isChatGPTConversation(sample.firstRecord)) {
+      return isConversationsFile ? 1 : 0.9;
+    }
+    if (isFlatMessagesConversation(sample.firstRecord)) {
+      return isConversationsFile ? 0.7 : 0.6;
+    }
+    return 0;
+  },
+  normalizeRecord: normalizeChatGPTConversation,
+});
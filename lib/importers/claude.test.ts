@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import { processConversations, setTokenCounter } from "../calculator";
+import {
+  claudeImporter,
+  convertClaudeMessages,
+  getClaudeModelSlug,
+  normalizeClaudeConversation,
+  parseClaudeTimestamp,
+} from "./claude";
+
+const CONVERSATION = {
+  uuid: "c-1",
+  name: "Trip planning",
+  created_at: "2024-07-01T10:00:00.000Z",
+  updated_at: "2024-07-01T10:05:00.000Z",
+  chat_messages: [
+    {
+      sender: "human",
+      created_at: "2024-07-01T10:00:00.000Z",
+      text: "flattened text",
+      content: [{ type: "text", text: "Plan a trip" }],
+      attachments: [{ extracted_content: "itinerary.txt contents" }],
+      files: [
+        {
+          file_name: "map.png",
+          preview_asset: { image_width: 800, image_height: 600 },
+        },
+        { file_name: "notes.pdf" },
+      ],
+    },
+    {
+      sender: "assistant",
+      created_at: "2024-07-01T10:00:30.000Z",
+      content: [
+        { type: "thinking", thinking: "Consider the weather" },
+        { type: "tool_use", name: "search", input: { q: "weather" } },
+        {
+          type: "tool_result",
+          name: "search",
+          content: [{ type: "text", text: "Sunny" }],
+        },
+        { type: "text", text: "Go to the beach." },
+      ],
+    },
+  ],
+};
+
+describe("parseClaudeTimestamp", () => {
+  it("converts ISO strings to Unix seconds", () => {
+    expect(parseClaudeTimestamp("2024-07-01T10:00:00.000Z")).toBe(1719828000);
+    expect(parseClaudeTimestamp(1719828000)).toBe(1719828000);
+    expect(parseClaudeTimestamp("yesterday")).toBeUndefined();
+    expect(parseClaudeTimestamp(null)).toBeUndefined();
+  });
+});
+
+describe("getClaudeModelSlug", () => {
+  it("uses the Claude.ai default model when the conversation started", () => {
+    expect(getClaudeModelSlug({ created_at: "2023-06-01T00:00:00Z" })).toBe(
+      "claude-2"
+    );
+    expect(getClaudeModelSlug({ created_at: "2024-06-20T00:00:00Z" })).toBe(
+      "claude-3-5-sonnet"
+    );
+    expect(getClaudeModelSlug({ created_at: "2025-06-01T00:00:00Z" })).toBe(
+      "claude-sonnet-4"
+    );
+  });
+
+  it("prefers an explicit model and falls back to the latest default", () => {
+    expect(getClaudeModelSlug({ model: "claude-3-opus" })).toBe(
+      "claude-3-opus"
+    );
+    expect(getClaudeModelSlug({})).toBe("claude-sonnet-4-5");
+  });
+});
+
+describe("convertClaudeMessages", () => {
+  const messages = convertClaudeMessages(CONVERSATION);
+
+  it("sends content blocks, documents and images with the prompt", () => {
+    expect(messages[0].author.role).toBe("user");
+    expect(messages[0].create_time).toBe(1719828000);
+    expect(messages[0].content.parts).toEqual([
+      "Plan a trip",
+      "itinerary.txt contents",
+      { content_type: "image_asset_pointer", width: 800, height: 600 },
+    ]);
+  });
+
+  it("splits a response into thinking, tool calls, tool results and text", () => {
+    const pieces = messages.slice(1);
+    expect(pieces.map((piece) => piece.content.content_type)).toEqual([
+      "thoughts",
+      "text",
+      "text",
+      "text",
+    ]);
+    expect(pieces[1].content.parts).toEqual(['{"q":"weather"}']);
+    expect(pieces[2].author).toEqual({ role: "tool", name: "search" });
+    expect(pieces.map((piece) => piece.end_turn)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      true,
+    ]);
+    pieces.forEach((piece) => {
+      expect(piece.metadata.model_slug).toBe("claude-3-5-sonnet");
+      expect(piece.create_time).toBe(1719828030);
+    });
+  });
+
+  it("falls back to the flattened text of older exports", () => {
+    const [prompt, response] = convertClaudeMessages({
+      created_at: "2023-06-01T00:00:00Z",
+      chat_messages: [
+        { sender: "human", text: "Hi" },
+        { sender: "assistant", text: "Hello!" },
+      ],
+    });
+    expect(prompt.content.parts).toEqual(["Hi"]);
+    expect(prompt.create_time).toBe(1685577600);
+    expect(response.content.parts).toEqual(["Hello!"]);
+    expect(response.end_turn).toBe(true);
+  });
+});
+
+describe("normalizeClaudeConversation", () => {
+  it("keeps the conversation's identity and times", () => {
+    const normalized = normalizeClaudeConversation(CONVERSATION)!;
+    expect(normalized.id).toBe("c-1");
+    expect(normalized.title).toBe("Trip planning");
+    expect(normalized.create_time).toBe(1719828000);
+    expect(normalized.update_time).toBe(1719828300);
+  });
+
+  it("skips objects that aren't Claude conversations", () => {
+    expect(normalizeClaudeConversation({ mapping: {} })).toBeNull();
+  });
+});
+
+describe("token totals", () => {
+  it("counts every block once, tool results as context", async () => {
+    setTokenCounter((texts) => texts.map((text) => text.split(" ").length));
+    const aggregator = await processConversations(
+      [normalizeClaudeConversation(CONVERSATION)!],
+      { branchMode: "all", timeZone: "UTC" }
+    );
+
+    // 3 + 2 words and a 765-token image in the prompt; 3 + 1 + 1 + 4 words
+    // of thinking, tool call, tool result and answer
+    expect(aggregator.tokenAccuracy).toEqual({
+      exact: 779,
+      estimated: 0,
+      defaulted: 0,
+    });
+    const [{ usage }] = aggregator.conversations!;
+    expect(usage).toMatchObject([{ input_tokens: 779, output_tokens: 8 }]);
+  });
+});
+
+describe("claudeImporter.detect", () => {
+  it("recognises Claude conversations by their chat_messages", () => {
+    const sample = { path: "conversations.json", head: "[" };
+    expect(
+      claudeImporter.detect({ ...sample, firstRecord: CONVERSATION })
+    ).toBe(1);
+    expect(
+      claudeImporter.detect({ ...sample, firstRecord: { mapping: {} } })
+    ).toBe(0);
+  });
+});
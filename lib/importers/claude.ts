@@ -0,0 +1,237 @@
+/**
+ * @file claude.ts
+ *
+ * Importer for Claude.ai data exports. Claude's `conversations.json` stores each
+ * conversation as a flat `chat_messages` array with `sender`/`text`/`content`
+ * and ISO timestamps, and does not record which model answered. This module
+ * converts those messages into the ChatGPT message shape understood by the
+ * calculator and infers the model from the date of each conversation.
+ */
+
+import { createJsonArrayImporter } from "./jsonArrayImporter";
+import type { NormalizedConversation } from "./types";
+
+/**
+ * The default Claude.ai model over time, as `[first day, model slug]` pairs in
+ * chronological order. Exports don't record the model, so each conversation is
+ * attributed to whichever model was the default when it started.
+ */
+const CLAUDE_DEFAULT_MODELS: [string, string][] = [
+  ["2023-01-01", "claude-2"],
+  ["2023-11-21", "claude-2.1"],
+  ["2024-03-04", "claude-3-sonnet"],
+  ["2024-06-20", "claude-3-5-sonnet"],
+  ["2025-02-24", "claude-3-7-sonnet"],
+  ["2025-05-22", "claude-sonnet-4"],
+  ["2025-09-29", "claude-sonnet-4-5"],
+];
+
+const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|webp|heic)$/i;
+
+/**
+ * Check whether a conversation object comes from a Claude.ai export.
+ */
+export function isClaudeConversation(conversation: any): boolean {
+  return (
+    !!conversation &&
+    typeof conversation === "object" &&
+    Array.isArray(conversation.chat_messages)
+  );
+}
+
+/**
+ * Convert an ISO-8601 string (or Unix timestamp) to Unix seconds.
+ * @returns The timestamp in seconds, or undefined if it cannot be parsed
+ */
+export function parseClaudeTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return undefined;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : ms / 1000;
+}
+
+/**
+ * Determine the model slug for a Claude conversation. Uses an explicit `model`
+ * field if the export has one, otherwise the Claude.ai default at the time the
+ * conversation was created.
+ */
+export function getClaudeModelSlug(conversation: any): string {
+  if (typeof conversation?.model === "string" && conversation.model) {
+    return conversation.model;
+  }
+
+  const createdAt = parseClaudeTimestamp(conversation?.created_at);
+  if (createdAt === undefined) {
+    return CLAUDE_DEFAULT_MODELS[CLAUDE_DEFAULT_MODELS.length - 1][1];
+  }
+
+  const day = new Date(createdAt * 1000).toISOString().slice(0, 10);
+  let slug = CLAUDE_DEFAULT_MODELS[0][1];
+  for (const [since, model] of CLAUDE_DEFAULT_MODELS) {
+    if (day >= since) slug = model;
+  }
+  return slug;
+}
+
+/**
+ * Convert a Claude conversation's `chat_messages` into ChatGPT-style messages
+ * (`author.role`, `content.content_type`/`parts`, `metadata.model_slug`,
+ * `end_turn`) in conversation order.
+ *
+ * A single Claude assistant message may contain thinking, tool calls and tool
+ * results before its final text; each becomes its own message so the usual
+ * context accumulation applies, with only the last assistant piece ending the
+ * turn.
+ *
+ * @param conversation A single conversation object from a Claude export
+ * @returns An array of ChatGPT-style message objects
+ */
+export function convertClaudeMessages(conversation: any): any[] {
+  const modelSlug = getClaudeModelSlug(conversation);
+  const messages: any[] = [];
+
+  for (const chatMessage of conversation.chat_messages ?? []) {
+    if (!chatMessage || typeof chatMessage !== "object") continue;
+
+    const createTime =
+      parseClaudeTimestamp(chatMessage.created_at) ??
+      parseClaudeTimestamp(conversation.created_at);
+    const blocks: any[] = Array.isArray(chatMessage.content)
+      ? chatMessage.content
+      : [];
+
+    if (chatMessage.sender === "human") {
+      const parts: any[] = [];
+
+      const blockTexts = blocks
+        .filter((block) => block?.type === "text" && block.text)
+        .map((block) => block.text);
+      if (blockTexts.length > 0) {
+        parts.push(...blockTexts);
+      } else if (chatMessage.text) {
+        parts.push(chatMessage.text);
+      }
+
+      // Uploaded documents are sent to the model as extracted text
+      for (const attachment of chatMessage.attachments ?? []) {
+        if (attachment?.extracted_content) {
+          parts.push(attachment.extracted_content);
+        }
+      }
+
+      // Uploaded images; dimensions are only present in newer exports
+      for (const file of [
+        ...(chatMessage.files ?? []),
+        ...(chatMessage.files_v2 ?? []),
+      ]) {
+        const isImage =
+          file?.file_kind === "image" ||
+          IMAGE_FILE_PATTERN.test(file?.file_name ?? "");
+        if (!isImage) continue;
+        parts.push({
+          content_type: "image_asset_pointer",
+          width: file.preview_asset?.image_width,
+          height: file.preview_asset?.image_height,
+        });
+      }
+
+      messages.push({
+        author: { role: "user" },
+        create_time: createTime,
+        content: { content_type: "text", parts },
+      });
+      continue;
+    }
+
+    if (chatMessage.sender !== "assistant") continue;
+
+    const pieces: any[] = [];
+    for (const block of blocks) {
+      if (!block || typeof block !== "object") continue;
+
+      if (block.type === "thinking" && block.thinking) {
+        pieces.push({
+          author: { role: "assistant" },
+          content: {
+            content_type: "thoughts",
+            thoughts: [{ content: block.thinking }],
+          },
+        });
+      } else if (block.type === "tool_use") {
+        // The call's input is output of the model; as a "code" message its
+        // text would be counted twice
+        pieces.push({
+          author: { role: "assistant" },
+          content: {
+            content_type: "text",
+            parts: [JSON.stringify(block.input ?? {})],
+          },
+        });
+      } else if (block.type === "tool_result") {
+        const resultParts = (Array.isArray(block.content) ? block.content : [])
+          .filter((item: any) => item?.type === "text" && item.text)
+          .map((item: any) => item.text);
+        pieces.push({
+          author: { role: "tool", name: block.name },
+          content: { content_type: "text", parts: resultParts },
+        });
+      } else if (block.type === "text" && block.text) {
+        pieces.push({
+          author: { role: "assistant" },
+          content: { content_type: "text", parts: [block.text] },
+        });
+      }
+    }
+
+    // Older exports only carry the flattened text
+    if (pieces.length === 0 && chatMessage.text) {
+      pieces.push({
+        author: { role: "assistant" },
+        content: { content_type: "text", parts: [chatMessage.text] },
+      });
+    }
+
+    let lastAssistantPiece: any = null;
+    for (const piece of pieces) {
+      piece.create_time = createTime;
+      piece.metadata = { model_slug: modelSlug };
+      if (piece.author.role === "assistant") lastAssistantPiece = piece;
+    }
+    if (lastAssistantPiece) {
+      lastAssistantPiece.end_turn = true;
+    }
+
+    messages.push(...pieces);
+  }
+
+  return messages;
+}
+
+/**
+ * Convert a Claude conversation into the normalized shape.
+ *
+ * @param conversation A single conversation object from a Claude export
+ * @returns The normalized conversation, or null if it has no chat_messages
+ */
+export function normalizeClaudeConversation(
+  conversation: any
+): NormalizedConversation | null {
+  if (!isClaudeConversation(conversation)) return null;
+  return {
+    id: conversation.uuid,
+    title: conversation.name,
+    create_time: parseClaudeTimestamp(conversation.created_at),
+    update_time: parseClaudeTimestamp(conversation.updated_at),
+    messages: convertClaudeMessages(conversation),
+  };
+}
+
+export const claudeImporter = createJsonArrayImporter({
+  id: "claude",
+  name: "Claude.ai export",
+  detect(sample) {
+    if (!isClaudeConversation(sample.firstRecord)) return 0;
+    return typeof sample.firstRecord.uuid === "string" ? 1 : 0.9;
+  },
+  normalizeRecord: normalizeClaudeConversation,
+});
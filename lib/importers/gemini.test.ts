@@ -0,0 +1,164 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { detectImporter } from ".";
+import {
+  convertGeminiActivity,
+  geminiImporter,
+  getGeminiModelSlug,
+  isGeminiActivity,
+  normalizeGeminiActivity,
+  parseGeminiActivityHtml,
+} from "./gemini";
+import type { NormalizedConversation } from "./types";
+
+const FIXTURE_HTML = readFileSync(
+  path.join(__dirname, "../../test/fixtures/gemini-MyActivity.html"),
+  "utf8"
+);
+
+/**
+ * The fixture with its inline styles grown to the size of a real Takeout
+ * page, which puts the first activity well past the first 64 KB.
+ */
+const FULL_SIZE_HTML = FIXTURE_HTML.replace(
+  "/* STYLE */",
+  ".mdl-button{border-radius:2px;color:#000;height:36px;padding:0 16px}\n".repeat(
+    2000
+  )
+);
+
+const PROMPT_RECORD = {
+  header: "Gemini Apps",
+  title: "Prompted Describe this photo",
+  time: "2024-08-01T12:00:00.000Z",
+  products: ["Gemini Apps"],
+  attachedFiles: ["holiday.jpg", "notes.txt"],
+  safeHtmlItem: [{ html: "<p>A beach at &quot;sunset&quot;.</p>" }],
+};
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe("Gemini activity records", () => {
+  it("recognises Gemini Apps records", () => {
+    expect(isGeminiActivity(PROMPT_RECORD)).toBe(true);
+    expect(isGeminiActivity({ ...PROMPT_RECORD, header: "YouTube" })).toBe(
+      true
+    );
+    expect(
+      isGeminiActivity({ ...PROMPT_RECORD, header: "YouTube", products: [] })
+    ).toBe(false);
+  });
+
+  it("attributes records to the default model at the time", () => {
+    expect(getGeminiModelSlug({ time: "2024-01-01T00:00:00Z" })).toBe(
+      "gemini-1.0-pro"
+    );
+    expect(getGeminiModelSlug(PROMPT_RECORD)).toBe("gemini-1.5-flash");
+    expect(getGeminiModelSlug({})).toBe("gemini-2.5-flash");
+  });
+
+  it("converts a prompt into a single-turn conversation", () => {
+    const [prompt, response] = convertGeminiActivity(PROMPT_RECORD);
+    expect(prompt.content.parts).toEqual([
+      "Describe this photo",
+      { content_type: "image_asset_pointer" },
+    ]);
+    expect(response.content.parts).toEqual(['A beach at "sunset".']);
+    expect(response.metadata.model_slug).toBe("gemini-1.5-flash");
+    expect(response.end_turn).toBe(true);
+  });
+
+  it("skips records that aren't prompts", () => {
+    expect(
+      normalizeGeminiActivity({ ...PROMPT_RECORD, title: "Used a Gem" })
+    ).toBeNull();
+  });
+});
+
+describe("parseGeminiActivityHtml", () => {
+  it("reads each activity cell of a Takeout page", () => {
+    const records = parseGeminiActivityHtml(FIXTURE_HTML);
+    expect(records.map((record) => record.title)).toEqual([
+      "Prompted What is the capital of France?",
+      "Gave feedback: Good response",
+      'Prompted Write a haiku about "rain"',
+    ]);
+    expect(records[0].time).toBe("2025-03-01T10:00:00.000Z");
+    expect(records[2].time).toBe("2025-02-28T21:15:30.000Z");
+  });
+
+  it("decodes entities once", () => {
+    const html = FIXTURE_HTML.replace(
+      "What is the capital of France?",
+      "What does &amp;lt;b&amp;gt; do?"
+    ).replace("<b>Paris</b>", "&amp;amp;");
+    const [prompt, response] = convertGeminiActivity(
+      parseGeminiActivityHtml(html)[0]
+    );
+    expect(prompt.content.parts).toEqual(["What does &lt;b&gt; do?"]);
+    expect(response.content.parts).toEqual(["The capital of France is &amp;."]);
+  });
+});
+
+describe("geminiImporter", () => {
+  const source = (html: string) => new Blob([html]);
+
+  it.each([
+    "MyActivity.html",
+    "Takeout/My Activity/Gemini Apps/MyActivity.html",
+  ])("detects a full-size Takeout page uploaded as %s", async (filePath) => {
+    const { importer, confidence } = await detectImporter(
+      source(FULL_SIZE_HTML),
+      filePath
+    );
+    expect(importer.id).toBe("gemini");
+    expect(confidence).toBe(1);
+  });
+
+  it("doesn't claim the activity pages of other products", async () => {
+    const youTubePage = FIXTURE_HTML.replace(/Gemini Apps/g, "YouTube");
+    await expect(
+      detectImporter(
+        source(youTubePage),
+        "Takeout/My Activity/YouTube/MyActivity.html"
+      )
+    ).rejects.toThrow("Unrecognised export format");
+  });
+
+  it("yields the prompts of an HTML page as conversations", async () => {
+    const conversations: NormalizedConversation[] = await collect(
+      geminiImporter.normalize(source(FULL_SIZE_HTML), "MyActivity.html")
+    );
+    expect(conversations.map((conversation) => conversation.title)).toEqual([
+      "What is the capital of France?",
+      'Write a haiku about "rain"',
+    ]);
+    expect(conversations[0].messages[1].content.parts).toEqual([
+      "The capital of France is Paris.",
+    ]);
+    expect(conversations[1].create_time).toBe(1740777330);
+  });
+
+  it("streams the JSON flavour", async () => {
+    const conversations = await collect(
+      geminiImporter.normalize(
+        source(
+          JSON.stringify([
+            PROMPT_RECORD,
+            { ...PROMPT_RECORD, title: "Used a Gem" },
+          ])
+        ),
+        "MyActivity.json"
+      )
+    );
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].id).toBe(
+      "2024-08-01T12:00:00.000Z:Prompted Describe this photo"
+    );
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * @file gemini.ts
+ *
+ * Importer for Google Takeout's "Gemini Apps" activity export
+ * (`My Activity/Gemini Apps/MyActivity.json` or `MyActivity.html`). Takeout
+ * stores one activity record per prompt, with the prompt in `title` and the
+ * response as HTML in `safeHtmlItem`, and does not keep threads or the model
+ * used. Each prompt/response pair is therefore converted into a single-turn
+ * conversation of ChatGPT-style messages, attributed to the Gemini app's
+ * default model at the time.
+ */
+
+import { createJsonArrayImporter } from "./jsonArrayImporter";
+import type { ConversationImporter, NormalizedConversation } from "./types";
+
+/**
+ * The default Gemini app model over time, as `[first day, model slug]` pairs in
+ * chronological order.
+ */
+const GEMINI_DEFAULT_MODELS: [string, string][] = [
+  ["2023-01-01", "gemini-1.0-pro"],
+  ["2024-07-25", "gemini-1.5-flash"],
+  ["2025-01-30", "gemini-2.0-flash"],
+  ["2025-04-17", "gemini-2.5-flash"],
+];
+
+const GEMINI_PRODUCT = "Gemini Apps";
+const PROMPT_PREFIX = "Prompted";
+
+/**
+ * Check whether an object is a Takeout Gemini Apps activity record.
+ */
+export function isGeminiActivity(record: any): boolean {
+  return (
+    !!record &&
+    typeof record === "object" &&
+    typeof record.title === "string" &&
+    typeof record.time === "string" &&
+    (record.header === GEMINI_PRODUCT ||
+      (Array.isArray(record.products) &&
+        record.products.includes(GEMINI_PRODUCT)))
+  );
+}
+
+/**
+ * Get the time of an activity record in Unix seconds.
+ * @returns The timestamp in seconds, or undefined if it cannot be parsed
+ */
+export function getGeminiActivityTimestamp(record: any): number | undefined {
+  const ms = Date.parse(record?.time);
+  return Number.isNaN(ms) ? undefined : ms / 1000;
+}
+
+/**
+ * Determine the model slug for an activity record from its date.
+ */
+export function getGeminiModelSlug(record: any): string {
+  const timestamp = getGeminiActivityTimestamp(record);
+  if (timestamp === undefined) {
+    return GEMINI_DEFAULT_MODELS[GEMINI_DEFAULT_MODELS.length - 1][1];
+  }
+
+  const day = new Date(timestamp * 1000).toISOString().slice(0, 10);
+  let slug = GEMINI_DEFAULT_MODELS[0][1];
+  for (const [since, model] of GEMINI_DEFAULT_MODELS) {
+    if (day >= since) slug = model;
+  }
+  return slug;
+}
+
+/**
+ * Convert an activity record into ChatGPT-style messages: the prompt as a user
+ * message and the response as the final assistant message. Records that are
+ * not prompts (feedback, created Gems, ...) produce no messages.
+ *
+ * @param record A single Gemini Apps activity record
+ * @returns An array of ChatGPT-style message objects
+ */
+export function convertGeminiActivity(record: any): any[] {
+  // Titles are plain text: the HTML flavour's are decoded when it is parsed
+  const title = String(record.title ?? "").trim();
+  if (!title.startsWith(PROMPT_PREFIX)) return [];
+
+  const createTime = getGeminiActivityTimestamp(record);
+  const prompt = title.slice(PROMPT_PREFIX.length).trim();
+
+  const userParts: any[] = [];
+  if (prompt) userParts.push(prompt);
+  for (const attachment of record.attachedFiles ?? []) {
+    // Only the file name survives the export; images get the default size
+    if (/\.(png|jpe?g|gif|webp|heic)$/i.test(String(attachment))) {
+      userParts.push({ content_type: "image_asset_pointer" });
+    }
+  }
+
+  const response = (record.safeHtmlItem ?? [])
+    .map((item: any) => htmlToText(item?.html ?? ""))
+    .filter(Boolean)
+    .join("\n");
+
+  const messages: any[] = [
+    {
+      author: { role: "user" },
+      create_time: createTime,
+      content: { content_type: "text", parts: userParts },
+    },
+  ];
+  if (response) {
+    messages.push({
+      author: { role: "assistant" },
+      create_time: createTime,
+      content: { content_type: "text", parts: [response] },
+      metadata: { model_slug: getGeminiModelSlug(record) },
+      end_turn: true,
+    });
+  }
+  return messages;
+}
+
+/**
+ * Parse the HTML flavour of the Takeout activity export into records with the
+ * same shape as the JSON flavour (`header`, `title`, `time`, `safeHtmlItem`).
+ *
+ * Each activity is an `outer-cell` whose first `content-cell` holds the title,
+ * a human-readable timestamp and the response, separated by `<br>` tags.
+ *
+ * @param html The contents of `MyActivity.html`
+ * @returns The parsed activity records, in document order
+ */
+export function parseGeminiActivityHtml(html: string): any[] {
+  const records: any[] = [];
+  const cells = html.split(/<div class="outer-cell\b/).slice(1);
+
+  for (const cell of cells) {
+    // The first content cell holds the activity; the following ones hold the
+    // (empty) side column and the "Products:" caption
+    const [, mainCell] = cell.split(/<div class="content-cell[^"]*">/);
+    if (!mainCell) continue;
+    const content = mainCell.replace(/<\/div>\s*$/, "");
+
+    const [titleHtml = "", timeHtml = "", ...responseHtml] =
+      content.split(/<br\s*\/?>/i);
+    const time = parseActivityTime(htmlToText(timeHtml));
+    if (time === undefined) continue;
+
+    records.push({
+      header: GEMINI_PRODUCT,
+      title: htmlToText(titleHtml),
+      time: new Date(time).toISOString(),
+      safeHtmlItem: [{ html: responseHtml.join("<br>") }],
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Parse a human-readable Takeout timestamp such as
+ * "Mar 1, 2025, 10:00:00 AM PST". Zone abbreviations the engine doesn't know
+ * are dropped, in which case the time is read in the local timezone.
+ * @returns The timestamp in milliseconds, or undefined if it cannot be parsed
+ */
+function parseActivityTime(text: string): number | undefined {
+  const normalized = text.replace(/[\u00a0\u202f]/g, " ").trim();
+  let time = Date.parse(normalized);
+  if (Number.isNaN(time)) {
+    time = Date.parse(normalized.replace(/\s+[A-Z]{2,5}$/, ""));
+  }
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Reduce an HTML fragment to its text content.
+ */
+function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(br|\/p|\/div|\/li|\/h\d)\b[^>]*>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  emsp: " ",
+  ensp: " ",
+  thinsp: " ",
+};
+
+/**
+ * Decode the HTML entities that appear in Takeout exports.
+ */
+function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const codePoint =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return Number.isNaN(codePoint) || codePoint > 0x10ffff
+          ? entity
+          : String.fromCodePoint(codePoint);
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+/**
+ * Convert an activity record into a normalized single-turn conversation.
+ *
+ * @param record A single Gemini Apps activity record
+ * @returns The normalized conversation, or null if the record is not a prompt
+ */
+export function normalizeGeminiActivity(
+  record: any
+): NormalizedConversation | null {
+  if (!isGeminiActivity(record)) return null;
+  const messages = convertGeminiActivity(record);
+  if (messages.length === 0) return null;
+  return {
+    id: `${record.time}:${record.title}`,
+    title: messages[0].content.parts.find(
+      (part: any) => typeof part === "string"
+    ),
+    create_time: getGeminiActivityTimestamp(record),
+    messages,
+  };
+}
+
+const geminiJsonImporter = createJsonArrayImporter({
+  id: "gemini",
+  name: "Gemini Apps activity (Google Takeout)",
+  detect(sample) {
+    return isGeminiActivity(sample.firstRecord) ? 1 : 0;
+  },
+  normalizeRecord: normalizeGeminiActivity,
+});
+
+/**
+ * Reads both flavours of the Takeout activity export. The JSON flavour is
+ * streamed like any other array export; the HTML flavour has to be read and
+ * parsed in one piece.
+ */
+export const geminiImporter: ConversationImporter = {
+  id: "gemini",
+  name: "Gemini Apps activity (Google Takeout)",
+  detect(sample) {
+    if (sample.firstRecord !== undefined) {
+      return geminiJsonImporter.detect(sample);
+    }
+    const isActivityPage =
+      /<title>\s*My Activity\s*<\/title>/i.test(sample.head) ||
+      /<div class="outer-cell\b/.test(sample.head);
+    // Takeout keeps each product's activity in a folder named after it
+    const isGeminiActivity =
+      sample.head.includes(GEMINI_PRODUCT) ||
+      sample.path.includes(`${GEMINI_PRODUCT}/`);
+    if (!isActivityPage || !isGeminiActivity) return 0;
+    return /MyActivity\.html$/i.test(sample.path) ? 1 : 0.8;
+  },
+  async *normalize(source, path, onProgress) {
+    if (!/\.html?$/i.test(path)) {
+      yield* geminiJsonImporter.normalize(source, path, onProgress);
+      return;
+    }
+    const html = await new Response(source.stream()).text();
+    onProgress?.(100);
+    for (const record of parseGeminiActivityHtml(html)) {
+      const conversation = normalizeGeminiActivity(record);
+      if (conversation) {
+        yield conversation;
+      }
+    }
+  },
+};
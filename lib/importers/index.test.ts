@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import { chatGPTConversation } from "../../test/fixtures";
+import { detectImporter, getImporters, registerImporter } from ".";
+import { chatGPTImporter } from "./chatgpt";
+import { createJsonArrayImporter } from "./jsonArrayImporter";
+import type { ConversationImporter } from "./types";
+
+const json = (value: unknown) => new Blob([JSON.stringify(value)]);
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe("detectImporter", () => {
+  it("picks the importer that recognises the first record", async () => {
+    const chatGPT = await detectImporter(
+      json([chatGPTConversation("a", [])]),
+      "conversations.json"
+    );
+    expect(chatGPT.importer.id).toBe("chatgpt");
+    expect(chatGPT.confidence).toBe(1);
+
+    const claude = await detectImporter(
+      json([{ uuid: "c", chat_messages: [] }]),
+      "conversations.json"
+    );
+    expect(claude.importer.id).toBe("claude");
+  });
+
+  it("rejects files no importer recognises", async () => {
+    await expect(
+      detectImporter(json([{ something: "else" }]), "data.json")
+    ).rejects.toThrow("Unrecognised export format");
+  });
+});
+
+describe("sampling", () => {
+  /** Sample a text streamed in 16 KB chunks */
+  async function sampleHead(contents: string) {
+    const bytes = new TextEncoder().encode(contents);
+    const source = {
+      size: bytes.length,
+      stream: () =>
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (let i = 0; i < bytes.length; i += 16 * 1024) {
+              controller.enqueue(bytes.slice(i, i + 16 * 1024));
+            }
+            controller.close();
+          },
+        }),
+    };
+    const detect = vi.spyOn(chatGPTImporter, "detect").mockReturnValue(1);
+    await detectImporter(source, "conversations.json");
+    return detect.mock.calls[0][0].head;
+  }
+
+  it("cuts the sample at a number of characters, not bytes", async () => {
+    const text = "é".repeat(200 * 1024);
+    expect(await sampleHead(text)).toBe(text.slice(0, 64 * 1024));
+  });
+
+  it("samples the start of an HTML body", async () => {
+    const head = `<html><head><style>${"é".repeat(100 * 1024)}</style></head>`;
+    const body = `<body>${"ü".repeat(100 * 1024)}</body></html>`;
+    expect(await sampleHead(head + body)).toBe(
+      (head + body).slice(0, head.length - "</head>".length + 64 * 1024)
+    );
+  });
+});
+
+describe("registerImporter", () => {
+  const customImporter = createJsonArrayImporter({
+    id: "custom",
+    name: "Custom export",
+    detect: (sample) => (sample.firstRecord?.format === "custom" ? 1 : 0),
+    normalizeRecord: (record) => ({
+      id: record.id,
+      messages: record.turns,
+    }),
+  });
+
+  it("adds importers that take part in detection", async () => {
+    registerImporter(customImporter);
+    const { importer } = await detectImporter(
+      json([{ format: "custom", id: "x", turns: [] }]),
+      "export.json"
+    );
+    expect(importer).toBe(customImporter);
+  });
+
+  it("replaces an importer registered with the same ID", () => {
+    const replacement = { ...customImporter, name: "Custom export v2" };
+    registerImporter(replacement);
+    const custom = getImporters().filter(({ id }) => id === "custom");
+    expect(custom).toEqual([replacement]);
+  });
+
+  it("lets later importers win ties and tolerates failing detectors", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const failing: ConversationImporter = {
+      ...customImporter,
+      id: "failing",
+      detect: () => {
+        throw new Error("broken detector");
+      },
+    };
+    const competing: ConversationImporter = {
+      ...customImporter,
+      id: "competing",
+      detect: () => 1,
+    };
+    registerImporter(failing);
+    registerImporter(competing);
+    const { importer } = await detectImporter(
+      json([chatGPTConversation("a", [])]),
+      "conversations.json"
+    );
+    expect(importer.id).toBe("competing");
+  });
+});
+
+describe("createJsonArrayImporter", () => {
+  it("normalizes each record and skips invalid and rejected ones", async () => {
+    const importer = createJsonArrayImporter({
+      id: "test",
+      name: "Test",
+      detect: () => 1,
+      normalizeRecord: (record) =>
+        record.keep ? { id: record.id, messages: [] } : null,
+    });
+    const conversations = await collect(
+      importer.normalize(
+        json([
+          { id: "a", keep: true },
+          null,
+          7,
+          { id: "b" },
+          { id: "c", keep: 1 },
+        ]),
+        "export.json"
+      )
+    );
+    expect(conversations.map((conversation) => conversation.id)).toEqual([
+      "a",
+      "c",
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @file index.ts
+ *
+ * Registry of conversation importers. `detectImporter` samples the uploaded
+ * conversations file and picks the importer that is most confident it can read
+ * it; the chosen importer then streams normalized conversations to the
+ * calculator.
+ */
+
+import { streamJsonArray, StreamSource } from "../fileUtils";
+import { chatGPTImporter } from "./chatgpt";
+import { claudeImporter } from "./claude";
+import { geminiImporter } from "./gemini";
+import type { ConversationImporter, ImportSample } from "./types";
+
+export type {
+  ConversationImporter,
+  ImportSample,
+  NormalizedConversation,
+} from "./types";
+
+/** Number of characters of the file in `ImportSample.head` */
+const SAMPLE_HEAD_LENGTH = 64 * 1024;
+
+/**
+ * How far (in characters) to read for the end of an HTML document's `<head>`,
+ * after which the sample starts: Takeout activity pages inline all their
+ * styles and scripts there, so their first records can be far into the file.
+ */
+const MAX_HTML_HEAD_LENGTH = 1024 * 1024;
+
+const importers: ConversationImporter[] = [
+  chatGPTImporter,
+  claudeImporter,
+  geminiImporter,
+];
+
+/**
+ * Add an importer for another export format. Importers registered later win
+ * ties in detection confidence.
+ */
+export function registerImporter(importer: ConversationImporter): void {
+  const existing = importers.findIndex(({ id }) => id === importer.id);
+  if (existing !== -1) {
+    importers.splice(existing, 1);
+  }
+  importers.push(importer);
+}
+
+/**
+ * Get the registered importers, in registration order.
+ */
+export function getImporters(): readonly ConversationImporter[] {
+  return importers;
+}
+
+export interface DetectedImporter {
+  importer: ConversationImporter;
+  /** The winning importer's confidence, from 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * Sample a conversations file and pick the importer best able to read it.
+ *
+ * @param source The conversations file
+ * @param path   Path of the conversations file (inside the archive, if zipped)
+ * @returns The most confident importer and its confidence
+ * @throws Error if no importer recognises the file
+ */
+export async function detectImporter(
+  source: StreamSource,
+  path: string
+): Promise<DetectedImporter> {
+  const sample = await sampleSource(source, path);
+
+  let best: DetectedImporter | null = null;
+  for (const importer of importers) {
+    let confidence = 0;
+    try {
+      confidence = importer.detect(sample);
+    } catch (error) {
+      console.warn(`Importer "${importer.id}" failed to inspect file:`, error);
+    }
+    if (confidence > 0 && (!best || confidence >= best.confidence)) {
+      best = { importer, confidence };
+    }
+  }
+
+  if (!best) {
+    throw new Error(
+      "Unrecognised export format. Please upload a ChatGPT, Claude or Gemini export."
+    );
+  }
+  return best;
+}
+
+/**
+ * Read the start of the file and, if it is a JSON array, its first element.
+ * The head of an HTML document is read past (up to `MAX_HTML_HEAD_LENGTH`), so
+ * that the sample includes the start of its body.
+ */
+async function sampleSource(
+  source: StreamSource,
+  path: string
+): Promise<ImportSample> {
+  const reader = source.stream().getReader();
+  const decoder = new TextDecoder();
+  let head = "";
+  let sampleEnd = SAMPLE_HEAD_LENGTH;
+  try {
+    while (head.length < sampleEnd) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      head += decoder.decode(value, { stream: true });
+
+      if (/^\s*</.test(head)) {
+        const headEnd = head.search(/<\/head>/i);
+        sampleEnd =
+          headEnd !== -1
+            ? headEnd + SAMPLE_HEAD_LENGTH
+            : Math.min(head.length + SAMPLE_HEAD_LENGTH, MAX_HTML_HEAD_LENGTH);
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  const sample: ImportSample = { path, head: head.slice(0, sampleEnd) };
+  if (head.trimStart().startsWith("[")) {
+    try {
+      for await (const record of streamJsonArray(source)) {
+        sample.firstRecord = record;
+        break;
+      }
+    } catch (error) {
+      console.warn("Could not read the first record of the file:", error);
+    }
+  }
+  return sample;
+}
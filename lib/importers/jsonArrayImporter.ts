@@ -0,0 +1,58 @@
+/**
+ * @file jsonArrayImporter.ts
+ *
+ * Helper for the common case of an export whose conversations file is a single
+ * top-level JSON array with one record per conversation.
+ */
+
+import { streamJsonArray, StreamSource } from "../fileUtils";
+import type {
+  ConversationImporter,
+  ImportSample,
+  NormalizedConversation,
+} from "./types";
+
+interface JsonArrayImporterOptions {
+  id: string;
+  name: string;
+  detect(sample: ImportSample): number;
+  /**
+   * Convert one array element into a normalized conversation, or return null
+   * to skip it.
+   */
+  normalizeRecord(record: any): NormalizedConversation | null;
+}
+
+/**
+ * Build an importer that streams the top-level array of the conversations file
+ * and normalizes each record as soon as it has been parsed.
+ */
+export function createJsonArrayImporter(
+  options: JsonArrayImporterOptions
+): ConversationImporter {
+  return {
+    id: options.id,
+    name: options.name,
+    detect: options.detect,
+    async *normalize(
+      source: StreamSource,
+      path: string,
+      onProgress?: (progress: number) => void
+    ) {
+      let index = 0;
+      for await (const record of streamJsonArray(source, onProgress)) {
+        const currentIndex = index++;
+        if (!record || typeof record !== "object") {
+          console.warn(
+            `Skipping invalid conversation at index ${currentIndex}.`
+          );
+          continue;
+        }
+        const conversation = options.normalizeRecord(record);
+        if (conversation) {
+          yield conversation;
+        }
+      }
+    },
+  };
+}
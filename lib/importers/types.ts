@@ -0,0 +1,77 @@
+/**
+ * @file types.ts
+ *
+ * Shared types for conversation importers. Every supported export format is
+ * converted into `NormalizedConversation`s, which is the only shape the
+ * calculator aggregates.
+ */
+
+import type { StreamSource } from "../fileUtils";
+
+/**
+ * A conversation in the normalized shape. Messages use the ChatGPT message
+ * structure (`author.role`, `content.content_type`/`parts`, `metadata.model_slug`,
+ * `end_turn`, `create_time`), since it is the richest of the supported formats.
+ *
+ * Formats that keep regenerated responses and edited prompts as a tree set
+ * `id` and `parent` on each message (a `null` parent marks a root), and the
+ * conversation's `current_node` to the last message of the kept branch.
+ */
+export interface NormalizedConversation {
+  /** Stable identifier from the source export, if it has one */
+  id?: string;
+  title?: string;
+  /** Creation time in Unix seconds */
+  create_time?: number;
+  /** Last update time in Unix seconds */
+  update_time?: number;
+  /** Conversation-level default model, if the source records one */
+  default_model_slug?: string;
+  /** ID of the last message on the active branch, for tree-shaped formats */
+  current_node?: string;
+  /** Messages in conversation order */
+  messages: any[];
+}
+
+/**
+ * What an importer gets to look at when deciding whether it understands a file.
+ */
+export interface ImportSample {
+  /** Path of the conversations file (inside the archive, if zipped) */
+  path: string;
+  /**
+   * The first 64K characters of the file; for an HTML document, from the
+   * start up to 64K characters after its `<head>`
+   */
+  head: string;
+  /** The first element of the top-level JSON array, if the file is one */
+  firstRecord?: any;
+}
+
+/**
+ * A pluggable source of conversations. Register new importers in
+ * `lib/importers/index.ts` to support additional export formats without
+ * touching the aggregation code.
+ */
+export interface ConversationImporter {
+  /** Short machine-readable identifier, e.g. "chatgpt" */
+  id: string;
+  /** Human-readable format name shown to the user, e.g. "ChatGPT export" */
+  name: string;
+  /**
+   * How confident the importer is that it can read the sampled file, from 0
+   * (not at all) to 1 (certain).
+   */
+  detect(sample: ImportSample): number;
+  /**
+   * Read the file and yield its conversations in the normalized shape.
+   * @param source     The conversations file
+   * @param path       Path of the conversations file, as in `ImportSample`
+   * @param onProgress Progress callback function, called with 0-100
+   */
+  normalize(
+    source: StreamSource,
+    path: string,
+    onProgress?: (progress: number) => void
+  ): AsyncIterable<NormalizedConversation>;
+}
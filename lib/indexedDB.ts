@@ -0,0 +1,94 @@
+/**
+ * @file indexedDB.ts
+ *
+ * Promise helpers around the app's IndexedDB database, used for anything the
+ * user opts in to keeping on this device between sessions. Nothing here ever
+ * leaves the browser.
+ */
+
+const DATABASE_NAME = "what-the-token";
+const DATABASE_VERSION = 3;
+
+/** Object stores of the database */
+export const STORES = {
+  /** Token counts by content hash (see `tokenCache.ts`) */
+  tokenCounts: "tokenCounts",
+  /** Passphrase-encrypted chunks of token counts (see `tokenCache.ts`) */
+  encryptedTokenCounts: "encryptedTokenCounts",
+  /** The analysis remembered on this device (see `analysisStorage.ts`) */
+  analyses: "analyses",
+  /** Passphrase salt and check value (see `encryption.ts`) */
+  settings: "settings",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB can be used in this environment.
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * Open the database, creating any missing object stores. The connection is
+ * shared by every caller.
+ * @throws Error if IndexedDB is unavailable or the database can't be opened
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDBAvailable()) {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        for (const store of Object.values(STORES)) {
+          if (!database.objectStoreNames.contains(store)) {
+            database.createObjectStore(store);
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const database = request.result;
+        // Let another tab or worker upgrade the database; reopen on next use
+        database.onversionchange = () => {
+          database.close();
+          databasePromise = null;
+        };
+        resolve(database);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow retrying after a failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit.
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -8,6 +8,8 @@ export const MODEL_CATEGORIES = [
   "Vision",
   "Audio",
   "Research",
+  "Claude",
+  "Gemini",
   "Other",
 ] as const;
 
@@ -23,6 +25,16 @@ export const modelCategorization = {
   getCategory(slug: string): ModelCategory {
     const lowerSlug = slug.toLowerCase();
 
+    // Anthropic models, checked first since their names can contain
+    // substrings like "o4" that would otherwise match the OpenAI categories
+    if (lowerSlug.startsWith("claude")) {
+      return "Claude";
+    }
+    // Google models
+    if (lowerSlug.startsWith("gemini") || lowerSlug === "bard") {
+      return "Gemini";
+    }
+
     // GPT-4o series
     if (lowerSlug.includes("gpt-4o")) {
       // Special GPT-4 variants that should go in other categories
@@ -196,6 +208,20 @@ export const MODEL_CATEGORY_COLORS: Record<string, string[]> = {
     "hsl(35, 98%, 65%)",
     "hsl(25, 100%, 55%)",
   ],
+  Claude: [
+    "hsl(24, 50%, 68%)", // Muted clay range
+    "hsl(32, 50%, 72%)",
+    "hsl(16, 52%, 64%)",
+    "hsl(28, 48%, 76%)",
+    "hsl(20, 54%, 60%)",
+  ],
+  Gemini: [
+    "hsl(235, 85%, 72%)", // Indigo range
+    "hsl(245, 85%, 75%)",
+    "hsl(225, 85%, 69%)",
+    "hsl(240, 83%, 78%)",
+    "hsl(230, 87%, 66%)",
+  ],
   Other: [
     "hsl(210, 80%, 70%)", // Blue range
     "hsl(220, 80%, 73%)",
@@ -0,0 +1,138 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { chatGPTConversation, conversationsFile } from "../test/fixtures";
+import { createZip } from "../test/zip";
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  isAbortError,
+  ProcessingProgress,
+  setTokenCounter,
+} from "./calculator";
+import { analyzeExportFile, analyzeExportFiles } from "./pipeline";
+import { countTextsInProcess } from "./tokenizer";
+
+const OPTIONS = { ...DEFAULT_PROCESSING_OPTIONS, timeZone: "UTC" };
+
+const CONVERSATIONS = [
+  chatGPTConversation("a", [
+    { prompt: "hello", response: "hi there", time: 1700000000 },
+  ]),
+];
+
+beforeAll(() => setTokenCounter(countTextsInProcess));
+
+describe("analyzeExportFile", () => {
+  it("analyses a bare conversations file", async () => {
+    const result = await analyzeExportFile(
+      conversationsFile(CONVERSATIONS),
+      OPTIONS
+    );
+    expect(result.importerName).toBe("ChatGPT export");
+    expect(result.aggregator.conversations).toHaveLength(1);
+    expect(result.files).toBeUndefined();
+  });
+
+  it("reports the detected format and its progress", async () => {
+    const detected: string[] = [];
+    const readProgress: number[] = [];
+    const progress: ProcessingProgress[] = [];
+    await analyzeExportFile(conversationsFile(CONVERSATIONS), OPTIONS, {
+      onDetected: (importerName) => detected.push(importerName),
+      onReadProgress: (percent) => readProgress.push(percent),
+      onProgress: (report) => progress.push(report),
+    });
+
+    expect(detected).toEqual(["ChatGPT export"]);
+    expect(readProgress[readProgress.length - 1]).toBe(100);
+    expect(progress[progress.length - 1]).toMatchObject({
+      conversationsDone: 1,
+    });
+  });
+
+  it("rejects files of an unknown format", async () => {
+    const file = new File(['[{"text": "just some notes"}]'], "notes.json");
+    await expect(analyzeExportFile(file, OPTIONS)).rejects.toThrow(
+      "Unrecognised export format"
+    );
+  });
+
+  it("rejects with an abort error when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await analyzeExportFile(conversationsFile(CONVERSATIONS), {
+      ...OPTIONS,
+      signal: controller.signal,
+    }).catch((error) => error);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it("returns the other files of an export archive", async () => {
+    const archive = new File(
+      [
+        createZip([
+          {
+            name: "conversations.json",
+            contents: JSON.stringify(CONVERSATIONS),
+            deflate: true,
+          },
+          { name: "user.json", contents: '{"email":"me@example.com"}' },
+          { name: "message_feedback.json", contents: "[]" },
+        ]),
+      ],
+      "export.zip"
+    );
+
+    const result = await analyzeExportFile(archive, OPTIONS);
+    expect(result.aggregator.conversations).toHaveLength(1);
+    expect(Object.keys(result.files ?? {}).sort()).toEqual([
+      "message_feedback.json",
+      "user.json",
+    ]);
+    expect(await result.files!["user.json"].text()).toContain("me@example.com");
+  });
+});
+
+describe("analyzeExportFiles", () => {
+  it("merges several exports", async () => {
+    const started: string[] = [];
+    const result = await analyzeExportFiles(
+      [
+        conversationsFile(CONVERSATIONS, "old.json"),
+        conversationsFile(
+          [
+            ...CONVERSATIONS,
+            chatGPTConversation("b", [
+              { prompt: "hey", response: "hello", time: 1700100000 },
+            ]),
+          ],
+          "new.json"
+        ),
+      ],
+      OPTIONS,
+      { onFileStarted: (_index, fileName) => started.push(fileName) }
+    );
+
+    expect(started).toEqual(["old.json", "new.json"]);
+    expect(result.aggregator.conversations).toHaveLength(2);
+    expect(result.duplicates).toBe(1);
+    expect(result.sources).toEqual([
+      {
+        fileName: "old.json",
+        importerName: "ChatGPT export",
+        conversations: 1,
+        kept: 0,
+      },
+      {
+        fileName: "new.json",
+        importerName: "ChatGPT export",
+        conversations: 2,
+        kept: 2,
+      },
+    ]);
+  });
+
+  it("rejects an empty list of files", async () => {
+    await expect(analyzeExportFiles([], OPTIONS)).rejects.toThrow(
+      "No files to analyse."
+    );
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @file pipeline.ts
+ *
+ * The whole analysis of an uploaded export: open the file (or archive), detect
+ * its format, stream normalized conversations out of it and tokenize and
+ * aggregate them. Several overlapping exports can be analysed and merged into
+ * one aggregate. In the app this runs inside `pipeline.worker.ts`, so none of
+ * it blocks the page.
+ */
+
+import {
+  Aggregator,
+  mergeAggregators,
+  processConversations,
+  ProcessingOptions,
+  ProcessingProgress,
+} from "./calculator";
+import { openExportFile } from "./fileUtils";
+import { detectImporter } from "./importers";
+import { ZipEntry } from "./zipReader";
+
+/**
+ * Callbacks reporting how far an analysis has got.
+ */
+export interface PipelineHandlers {
+  /** Called when the next of several exports starts being analysed */
+  onFileStarted?: (index: number, fileName: string) => void;
+  /** Called once the export format has been recognised */
+  onDetected?: (importerName: string) => void;
+  /** Percentage of the conversations file read (and parsed) so far */
+  onReadProgress?: (percent: number) => void;
+  /** Progress of tokenizing the conversations read so far */
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+/** Options of an analysis; progress is reported through `PipelineHandlers` */
+export type PipelineOptions = Omit<
+  ProcessingOptions,
+  "onProgress" | "getSourceProgress"
+>;
+
+/** What one of several merged exports contributed */
+export interface PipelineSource {
+  /** Name of the export file */
+  fileName: string;
+  /** Name of the importer that read it */
+  importerName: string;
+  /** Conversations read from the file */
+  conversations: number;
+  /** Conversations whose newest copy came from the file */
+  kept: number;
+}
+
+export interface PipelineResult {
+  aggregator: Aggregator;
+  /** Name of the importer that read the export */
+  importerName: string;
+  /**
+   * The other files of an uploaded archive (`user.json`,
+   * `message_feedback.json`, image assets, ...), keyed by path relative to the
+   * conversations file. Entries are only read when streamed. Left out when a
+   * bare file or several exports were analysed.
+   */
+  files?: Record<string, ZipEntry>;
+  /** The exports merged into the aggregate, if there were several */
+  sources?: PipelineSource[];
+  /** Older copies of conversations left out when merging several exports */
+  duplicates?: number;
+}
+
+/**
+ * Analyse an uploaded export.
+ *
+ * @param file     The conversations file or the export archive
+ * @param options  Processing options
+ * @param handlers Progress callbacks
+ * @returns The aggregate, the recognised format and the archive's other files
+ * @throws Error if the file can't be opened or its format isn't recognised
+ * @throws The abort reason if `options.signal` is aborted (see `isAbortError`)
+ */
+export async function analyzeExportFile(
+  file: File,
+  options: PipelineOptions,
+  handlers: PipelineHandlers = {}
+): Promise<PipelineResult> {
+  const { signal } = options;
+
+  // Either the conversations file itself or the export archive containing it
+  const exportSource = await openExportFile(file);
+  signal?.throwIfAborted();
+  const attachedFiles = Object.keys(exportSource.files).length;
+  if (attachedFiles > 0) {
+    console.log(
+      `Found ${exportSource.conversationsPath} and ${attachedFiles} other file(s) in ${file.name}.`
+    );
+  }
+
+  // Let the registered importers decide which export format this is
+  const { importer } = await detectImporter(
+    exportSource.conversations,
+    exportSource.conversationsPath
+  );
+  signal?.throwIfAborted();
+  handlers.onDetected?.(importer.name);
+  console.log(
+    `Recognised ${exportSource.conversationsPath} as ${importer.name}.`
+  );
+
+  // The importer streams normalized conversations, so each one is tokenized
+  // as soon as it has been parsed instead of holding the whole export in
+  // memory
+  let sourceProgress = 0;
+  const conversations = importer.normalize(
+    exportSource.conversations,
+    exportSource.conversationsPath,
+    (progress) => {
+      sourceProgress = progress / 100;
+      handlers.onReadProgress?.(progress);
+    }
+  );
+
+  const aggregator = await processConversations(conversations, {
+    ...options,
+    onProgress: handlers.onProgress,
+    getSourceProgress: () => sourceProgress,
+  });
+  return {
+    aggregator,
+    importerName: importer.name,
+    files: attachedFiles > 0 ? exportSource.files : undefined,
+  };
+}
+
+/**
+ * Analyse several overlapping exports (e.g. successive exports of one account,
+ * or the exports of a team) one after another and merge them, counting each
+ * conversation once from its newest copy (see `mergeAggregators`). The token
+ * cache makes re-reading the older copies cheap.
+ *
+ * @param files    The conversations files or export archives
+ * @param options  Processing options
+ * @param handlers Progress callbacks; progress starts over for each file
+ * @returns The merged aggregate, and what each export contributed
+ * @throws Error if there are no files, or one can't be analysed
+ * @throws The abort reason if `options.signal` is aborted (see `isAbortError`)
+ */
+export async function analyzeExportFiles(
+  files: File[],
+  options: PipelineOptions,
+  handlers: PipelineHandlers = {}
+): Promise<PipelineResult> {
+  if (files.length === 0) {
+    throw new Error("No files to analyse.");
+  }
+  if (files.length === 1) {
+    return analyzeExportFile(files[0], options, handlers);
+  }
+
+  const results: PipelineResult[] = [];
+  for (let index = 0; index < files.length; index++) {
+    handlers.onFileStarted?.(index, files[index].name);
+    results.push(await analyzeExportFile(files[index], options, handlers));
+  }
+
+  const { aggregator, stats } = mergeAggregators(
+    results.map((result) => result.aggregator)
+  );
+  console.log(
+    `Merged ${files.length} exports, leaving out ${stats.duplicates} older copies of conversations.`
+  );
+  const importerNames = Array.from(
+    new Set(results.map((result) => result.importerName))
+  );
+  return {
+    aggregator,
+    importerName: importerNames.join(", "),
+    sources: files.map((file, index) => ({
+      fileName: file.name,
+      importerName: results[index].importerName,
+      conversations: stats.conversations[index],
+      kept: stats.kept[index],
+    })),
+    duplicates: stats.duplicates,
+  };
+}
@@ -0,0 +1,99 @@
+// lib/pipeline.worker.ts
+//
+// Runs the whole analysis (see pipeline.ts) off the main thread. Tokenization
+// is still spread over the tokenizer worker pool, which this worker starts.
+// The token cache lives here too, so cache commands are handled here.
+import { analyzeExportFiles } from "./pipeline";
+import {
+  clearTokenCache,
+  disableTokenCachePersistence,
+  enableTokenCachePersistence,
+  encryptPersistedCounts,
+  getTokenCacheStats,
+  resetTokenCacheStats,
+} from "./tokenCache";
+
+// Abort controllers of the analyses in progress, by request ID
+const analyses = new Map<number, AbortController>();
+
+/**
+ * Turn an error into something that survives `postMessage`, keeping its name
+ * so aborts can still be told apart.
+ */
+function serializeError(error: any): { name: string; message: string } {
+  return {
+    name: error?.name || "Error",
+    message: error?.message || String(error),
+  };
+}
+
+self.onmessage = async (event: MessageEvent) => {
+  const { id, type } = event.data;
+
+  try {
+    switch (type) {
+      case "ANALYZE": {
+        const controller = new AbortController();
+        analyses.set(id, controller);
+        resetTokenCacheStats();
+        try {
+          const result = await analyzeExportFiles(
+            event.data.files,
+            { ...event.data.options, signal: controller.signal },
+            {
+              onFileStarted: (index, fileName) =>
+                self.postMessage({ id, type: "FILE_STARTED", index, fileName }),
+              onDetected: (name) =>
+                self.postMessage({ id, type: "DETECTED", importerName: name }),
+              onReadProgress: (percent) =>
+                self.postMessage({ id, type: "READ_PROGRESS", percent }),
+              onProgress: (progress) =>
+                self.postMessage({ id, type: "PROGRESS", progress }),
+            }
+          );
+          // Archive entries read from the file lazily, so they can't be posted
+          const { files, ...postable } = result;
+          self.postMessage({
+            id,
+            type: "DONE",
+            result: { ...postable, tokenCacheStats: getTokenCacheStats() },
+          });
+        } finally {
+          analyses.delete(id);
+        }
+        break;
+      }
+
+      case "CANCEL":
+        analyses.get(event.data.analysisId)?.abort();
+        self.postMessage({ id, type: "DONE" });
+        break;
+
+      case "SET_CACHE_PERSISTENCE":
+        if (event.data.persistent) {
+          await enableTokenCachePersistence(event.data.key);
+        } else {
+          disableTokenCachePersistence();
+        }
+        self.postMessage({ id, type: "DONE", result: getTokenCacheStats() });
+        break;
+
+      case "ENCRYPT_CACHE":
+        await encryptPersistedCounts(event.data.key);
+        self.postMessage({ id, type: "DONE", result: getTokenCacheStats() });
+        break;
+
+      case "CLEAR_CACHE":
+        await clearTokenCache();
+        self.postMessage({ id, type: "DONE", result: getTokenCacheStats() });
+        break;
+
+      default:
+        console.warn("Pipeline worker: Received unknown message", event.data);
+    }
+  } catch (error) {
+    self.postMessage({ id, type: "ERROR", error: serializeError(error) });
+  }
+};
+
+console.log("Pipeline worker started.");
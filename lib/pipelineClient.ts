@@ -0,0 +1,195 @@
+/**
+ * @file pipelineClient.ts
+ *
+ * Main-thread side of `pipeline.worker.ts`: runs analyses and token cache
+ * commands in the pipeline worker and relays its progress messages, so the
+ * page stays responsive during a large import.
+ */
+
+import type {
+  PipelineHandlers,
+  PipelineOptions,
+  PipelineResult,
+} from "./pipeline";
+import type { TokenCacheStats } from "./tokenCache";
+
+/**
+ * Result of an analysis run in the pipeline worker. The archive's other files
+ * stay behind in the worker.
+ */
+export interface WorkerPipelineResult extends Omit<PipelineResult, "files"> {
+  /** Token cache hit rate of the analysis */
+  tokenCacheStats: TokenCacheStats;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (reason?: any) => void;
+  handlers?: PipelineHandlers;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+/**
+ * Lazily create or retrieve the pipeline worker. It is kept alive between
+ * analyses, so the token cache it holds in memory is reused.
+ * @throws Error if running in a non-browser environment.
+ */
+function getPipelineWorker(): Worker {
+  if (typeof Worker === "undefined") {
+    throw new Error("Pipeline worker can only be started in the browser.");
+  }
+
+  if (!worker) {
+    console.log("Creating Pipeline Worker...");
+    worker = new Worker(new URL("./pipeline.worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    worker.onmessage = (event: MessageEvent) => {
+      const { id, type } = event.data;
+      const request = pendingRequests.get(id);
+      // Requests that were cancelled on this side are no longer pending
+      if (!request) return;
+
+      switch (type) {
+        case "FILE_STARTED":
+          request.handlers?.onFileStarted?.(
+            event.data.index,
+            event.data.fileName
+          );
+          break;
+        case "DETECTED":
+          request.handlers?.onDetected?.(event.data.importerName);
+          break;
+        case "READ_PROGRESS":
+          request.handlers?.onReadProgress?.(event.data.percent);
+          break;
+        case "PROGRESS":
+          request.handlers?.onProgress?.(event.data.progress);
+          break;
+        case "DONE":
+          pendingRequests.delete(id);
+          request.resolve(event.data.result);
+          break;
+        case "ERROR":
+          pendingRequests.delete(id);
+          request.reject(
+            Object.assign(new Error(event.data.error.message), {
+              name: event.data.error.name,
+            })
+          );
+          break;
+      }
+    };
+
+    worker.onerror = (error: ErrorEvent) => {
+      console.error("Pipeline Worker Error:", error);
+      // Reject all pending requests; the next request starts a new worker
+      pendingRequests.forEach(({ reject }) =>
+        reject(new Error(`Worker error: ${error.message}`))
+      );
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+/**
+ * Post a request to the pipeline worker.
+ * @returns The request ID and a promise for its result
+ */
+function postRequest<T>(
+  message: Record<string, unknown>,
+  handlers?: PipelineHandlers
+): { id: number; promise: Promise<T> } {
+  const pipelineWorker = getPipelineWorker();
+  const id = nextRequestId++;
+  const promise = new Promise<T>((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject, handlers });
+  });
+  pipelineWorker.postMessage({ ...message, id });
+  return { id, promise };
+}
+
+/**
+ * Analyse uploaded exports in the pipeline worker, merging them if there are
+ * several (see `analyzeExportFiles`).
+ *
+ * @param files    The conversations files or export archives
+ * @param options  Processing options; `signal` cancels the analysis
+ * @param handlers Progress callbacks
+ * @returns The aggregate, the recognised format and the cache statistics
+ * @throws Error if a file can't be analysed
+ * @throws The abort reason if `options.signal` is aborted (see `isAbortError`)
+ */
+export async function analyzeFilesInWorker(
+  files: File[],
+  options: PipelineOptions,
+  handlers: PipelineHandlers = {}
+): Promise<WorkerPipelineResult> {
+  const { signal, ...workerOptions } = options;
+  signal?.throwIfAborted();
+
+  const { id, promise } = postRequest<WorkerPipelineResult>(
+    { type: "ANALYZE", files, options: workerOptions },
+    handlers
+  );
+
+  const onAbort = () => {
+    const request = pendingRequests.get(id);
+    if (!request) return;
+    pendingRequests.delete(id);
+    postRequest({ type: "CANCEL", analysisId: id });
+    request.reject(signal!.reason);
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    return await promise;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Turn persisting token counts to IndexedDB on or off in the pipeline worker
+ * (see `enableTokenCachePersistence`).
+ * @param persistent Whether to persist token counts
+ * @param key        Key to encrypt them with, if protected by a passphrase
+ * @returns The token cache's statistics afterwards
+ */
+export function setWorkerTokenCachePersistence(
+  persistent: boolean,
+  key?: CryptoKey
+): Promise<TokenCacheStats> {
+  return postRequest<TokenCacheStats>({
+    type: "SET_CACHE_PERSISTENCE",
+    persistent,
+    key,
+  }).promise;
+}
+
+/**
+ * Encrypt the token counts persisted by the pipeline worker with a new
+ * passphrase key, even if persistence is off (see `encryptPersistedCounts`).
+ * @param key Key to encrypt them with
+ * @returns The token cache's statistics afterwards
+ */
+export function encryptWorkerTokenCache(
+  key: CryptoKey
+): Promise<TokenCacheStats> {
+  return postRequest<TokenCacheStats>({ type: "ENCRYPT_CACHE", key }).promise;
+}
+
+/**
+ * Forget every token count cached by the pipeline worker, in memory and in
+ * IndexedDB.
+ * @returns The token cache's statistics afterwards
+ */
+export function clearWorkerTokenCache(): Promise<TokenCacheStats> {
+  return postRequest<TokenCacheStats>({ type: "CLEAR_CACHE" }).promise;
+}
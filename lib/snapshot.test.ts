@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { chatGPTConversation } from "../test/fixtures";
+import {
+  Aggregator,
+  PRICING_VERSION,
+  processConversations,
+  setTokenCounter,
+} from "./calculator";
+import { normalizeChatGPTConversation } from "./importers/chatgpt";
+import {
+  createSnapshot,
+  loadSnapshot,
+  migrateSnapshot,
+  saveSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+} from "./snapshot";
+import { getLocalTimeZone } from "./timezone";
+
+let aggregator: Aggregator;
+
+beforeAll(async () => {
+  setTokenCounter((texts) => texts.map((text) => text.split(" ").length));
+  aggregator = await processConversations(
+    [
+      chatGPTConversation("a", [
+        { prompt: "one two", response: "three", time: 1700000000 },
+        {
+          prompt: "four",
+          response: "five six",
+          model: "gpt-4",
+          time: 1700100000,
+        },
+      ]),
+    ].map((conversation) => normalizeChatGPTConversation(conversation)!),
+    { branchMode: "all", timeZone: "UTC" }
+  );
+});
+
+describe("snapshots", () => {
+  it("saves and loads an aggregate", () => {
+    const { aggregator: loaded, metadata } = loadSnapshot(
+      saveSnapshot(aggregator, { sourceFileName: "export.zip" })
+    );
+
+    expect(loaded).toEqual(aggregator);
+    expect(loaded.allModelSlugs).toEqual(new Set(["gpt-4o", "gpt-4"]));
+    expect(metadata).toMatchObject({
+      sourceFileName: "export.zip",
+      pricingVersion: PRICING_VERSION,
+      timeZone: "UTC",
+    });
+    expect(Date.parse(metadata.processedAt!)).not.toBeNaN();
+  });
+
+  it("records the aggregate's timezone, whatever the metadata says", () => {
+    const { metadata } = createSnapshot(aggregator, {
+      timeZone: "Europe/Paris",
+      pricingVersion: "2024-01",
+    });
+    expect(metadata.timeZone).toBe("UTC");
+    expect(metadata.pricingVersion).toBe("2024-01");
+  });
+
+  it("records the local timezone of an aggregate bucketed in it", () => {
+    const { aggregator: loaded, metadata } = loadSnapshot(
+      saveSnapshot({ ...aggregator, timeZone: undefined })
+    );
+    expect(metadata.timeZone).toBe(getLocalTimeZone());
+    expect(loaded.timeZone).toBe(getLocalTimeZone());
+  });
+
+  it("migrates a plain aggregate", () => {
+    const { allModelSlugs, startDate, endDate, totalCostAllModels, ...rest } =
+      aggregator;
+    const { aggregator: loaded, metadata } = loadSnapshot(JSON.stringify(rest));
+
+    // The summary fields are rebuilt from the days
+    expect(loaded.startDate).toBe(startDate);
+    expect(loaded.endDate).toBe(endDate);
+    expect(loaded.totalCostAllModels).toBeCloseTo(totalCostAllModels!);
+    expect(loaded.allModelSlugs).toEqual(allModelSlugs);
+    expect(metadata).toEqual({ timeZone: "UTC" });
+  });
+
+  it("rejects snapshots of a newer version", () => {
+    const snapshot = createSnapshot(aggregator);
+    expect(() =>
+      migrateSnapshot({ ...snapshot, version: SNAPSHOT_VERSION + 1 })
+    ).toThrow("newer version");
+  });
+
+  it("rejects damaged snapshots", () => {
+    const snapshot = createSnapshot(aggregator);
+    expect(() =>
+      migrateSnapshot({
+        ...snapshot,
+        aggregate: { ...snapshot.aggregate, allModelSlugs: undefined },
+      })
+    ).toThrow("damaged");
+  });
+
+  it("rejects files that aren't saved analyses", () => {
+    expect(() => loadSnapshot("not json")).toThrow("invalid JSON");
+    expect(() => loadSnapshot("[]")).toThrow("not a saved analysis");
+    expect(() =>
+      loadSnapshot(JSON.stringify({ format: "other", version: 1 }))
+    ).toThrow("not a saved analysis");
+    expect(() =>
+      loadSnapshot(JSON.stringify({ format: SNAPSHOT_FORMAT }))
+    ).toThrow("not a saved analysis");
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * @file snapshot.ts
+ *
+ * A versioned file format for saving a processed `Aggregator`, so an analysis
+ * can be reloaded or shared without the original export. A snapshot wraps the
+ * aggregate (with its `Set`s turned into arrays) together with metadata about
+ * how it was produced. Snapshots written by older versions, including plain
+ * `Aggregator` JSON, are migrated to the current version when loaded.
+ */
+
+import { Aggregator, PRICING_VERSION } from "./calculator";
+import { getLocalTimeZone } from "./timezone";
+
+/** Identifies a file as a snapshot */
+export const SNAPSHOT_FORMAT = "what-the-token/aggregate";
+
+/**
+ * Current snapshot version. Bump it whenever the saved shape changes, and add
+ * a migration from the previous version to `MIGRATIONS`.
+ */
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * How the saved aggregate was produced. Everything is optional, as aggregates
+ * migrated from plain JSON don't record any of it.
+ */
+export interface SnapshotMetadata {
+  /** Name of the export file that was analysed */
+  sourceFileName?: string;
+  /** Name of the importer that read the export */
+  importerName?: string;
+  /** When the export was analysed, as an ISO 8601 string */
+  processedAt?: string;
+  /** `PRICING_VERSION` the costs were calculated with */
+  pricingVersion?: string;
+  /** IANA timezone days and hours are bucketed in */
+  timeZone?: string;
+}
+
+/** An `Aggregator` in a JSON-safe shape */
+export type SerializedAggregator = Omit<Aggregator, "allModelSlugs"> & {
+  allModelSlugs: string[];
+};
+
+/** A saved analysis, as stored in a snapshot file */
+export interface AggregateSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  metadata: SnapshotMetadata;
+  aggregate: SerializedAggregator;
+}
+
+/** A loaded snapshot, ready to be displayed */
+export interface LoadedSnapshot {
+  aggregator: Aggregator;
+  metadata: SnapshotMetadata;
+}
+
+/**
+ * Migrations by the version they upgrade from. Each one returns the snapshot
+ * in the shape of the next version.
+ */
+const MIGRATIONS: Record<number, (snapshot: any) => any> = {
+  // Version 1 is a plain `Aggregator` saved with `JSON.stringify`, which loses
+  // its model slug set; the summary fields are rebuilt from the days.
+  1: (aggregate: any) => ({
+    format: SNAPSHOT_FORMAT,
+    version: 2,
+    metadata: { timeZone: aggregate.timeZone },
+    aggregate: summarizeUsageByDay(aggregate),
+  }),
+};
+
+/**
+ * Rebuild the date range, total cost and model slugs of an aggregate from its
+ * days.
+ */
+function summarizeUsageByDay(aggregate: any): SerializedAggregator {
+  const dayKeys = Object.keys(aggregate.usageByDay).sort();
+  let totalCost = 0;
+  const modelSlugs = new Set<string>();
+  for (const dayKey of dayKeys) {
+    const dayBucket = aggregate.usageByDay[dayKey];
+    totalCost += dayBucket.total.cost;
+    Object.keys(dayBucket.models).forEach((slug) => modelSlugs.add(slug));
+  }
+
+  return {
+    ...aggregate,
+    startDate: dayKeys[0],
+    endDate: dayKeys[dayKeys.length - 1],
+    totalCostAllModels: totalCost,
+    allModelSlugs: Array.from(modelSlugs),
+  };
+}
+
+/**
+ * Work out the version of a parsed snapshot file.
+ * @throws Error if it is neither a snapshot nor a plain aggregate
+ */
+function getSnapshotVersion(data: any): number {
+  if (typeof data !== "object" || data === null) {
+    throw new Error("This file is not a saved analysis.");
+  }
+  if (data.format === SNAPSHOT_FORMAT && Number.isInteger(data.version)) {
+    return data.version;
+  }
+  if (data.format === undefined && isUsageByDay(data.usageByDay)) {
+    return 1;
+  }
+  throw new Error("This file is not a saved analysis.");
+}
+
+/**
+ * Check the rough shape of `usageByDay`: day buckets with a total and models.
+ */
+function isUsageByDay(usageByDay: any): boolean {
+  return (
+    typeof usageByDay === "object" &&
+    usageByDay !== null &&
+    Object.values(usageByDay).every(
+      (dayBucket: any) =>
+        typeof dayBucket?.total?.cost === "number" &&
+        typeof dayBucket.models === "object" &&
+        dayBucket.models !== null
+    )
+  );
+}
+
+/**
+ * Bring a parsed snapshot file up to `SNAPSHOT_VERSION`.
+ *
+ * @param data The parsed contents of a snapshot file
+ * @returns The snapshot in the current shape
+ * @throws Error if the file isn't a snapshot, was saved by a newer version of
+ *   the app, or is damaged
+ */
+export function migrateSnapshot(data: unknown): AggregateSnapshot {
+  let version = getSnapshotVersion(data);
+  if (version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `This analysis was saved by a newer version of the app (snapshot version ${version}). Please update and try again.`
+    );
+  }
+
+  let snapshot: any = data;
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Snapshot version ${version} is no longer supported.`);
+    }
+    snapshot = migrate(snapshot);
+    version = snapshot.version;
+  }
+
+  if (
+    !isUsageByDay(snapshot.aggregate?.usageByDay) ||
+    !Array.isArray(snapshot.aggregate.allModelSlugs)
+  ) {
+    throw new Error("This saved analysis is damaged.");
+  }
+  return { ...snapshot, metadata: snapshot.metadata ?? {} };
+}
+
+/**
+ * Wrap an aggregate in the current snapshot format.
+ *
+ * @param aggregator An aggregate returned by `processConversations`
+ * @param metadata   What is known about its source; the processing date and
+ *                   pricing version are filled in if not given, and the
+ *                   timezone is always the aggregate's (the local one it
+ *                   was bucketed in, if it has none)
+ */
+export function createSnapshot(
+  aggregator: Aggregator,
+  metadata: SnapshotMetadata = {}
+): AggregateSnapshot {
+  // Recorded by name, as the snapshot may be opened in another timezone
+  const timeZone = aggregator.timeZone ?? getLocalTimeZone();
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    metadata: {
+      processedAt: new Date().toISOString(),
+      pricingVersion: PRICING_VERSION,
+      ...metadata,
+      timeZone,
+    },
+    aggregate: {
+      ...aggregator,
+      timeZone,
+      allModelSlugs: Array.from(aggregator.allModelSlugs ?? []),
+    },
+  };
+}
+
+/**
+ * Turn a snapshot back into an `Aggregator`.
+ */
+export function restoreSnapshot(snapshot: AggregateSnapshot): LoadedSnapshot {
+  return {
+    aggregator: {
+      ...snapshot.aggregate,
+      allModelSlugs: new Set(snapshot.aggregate.allModelSlugs),
+    },
+    metadata: snapshot.metadata,
+  };
+}
+
+/**
+ * Save an aggregate as the text of a snapshot file.
+ *
+ * @param aggregator An aggregate returned by `processConversations`
+ * @param metadata   What is known about its source (see `createSnapshot`)
+ */
+export function saveSnapshot(
+  aggregator: Aggregator,
+  metadata: SnapshotMetadata = {}
+): string {
+  return JSON.stringify(createSnapshot(aggregator, metadata));
+}
+
+/**
+ * Load a snapshot file saved by any version of the app, or a plain
+ * `Aggregator` JSON file.
+ *
+ * @param text The contents of the file
+ * @returns The aggregate and what is known about how it was produced
+ * @throws Error if the file isn't valid JSON or isn't a usable snapshot
+ */
+export function loadSnapshot(text: string): LoadedSnapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a saved analysis (invalid JSON).");
+  }
+  return restoreSnapshot(migrateSnapshot(data));
+}
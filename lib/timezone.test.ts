@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDaysToDayKey,
+  getDaysBetween,
+  getDayKeyWeekday,
+  getIsoWeekKey,
+  getMonthKey,
+  getSupportedTimeZones,
+  getZonedDayAndHour,
+  isValidTimeZone,
+} from "./timezone";
+
+describe("getZonedDayAndHour", () => {
+  // 2023-11-14 22:13:20 UTC
+  const TIME = 1700000000;
+
+  it("gets the day and hour in the given timezone", () => {
+    expect(getZonedDayAndHour(TIME, "UTC")).toEqual({
+      dayKey: "2023-11-14",
+      hour: 22,
+    });
+    expect(getZonedDayAndHour(TIME, "Asia/Kolkata")).toEqual({
+      dayKey: "2023-11-15",
+      hour: 3,
+    });
+    expect(getZonedDayAndHour(TIME, "America/Los_Angeles")).toEqual({
+      dayKey: "2023-11-14",
+      hour: 14,
+    });
+  });
+
+  it("accepts timestamps in milliseconds", () => {
+    expect(getZonedDayAndHour(TIME * 1000, "UTC")).toEqual(
+      getZonedDayAndHour(TIME, "UTC")
+    );
+  });
+
+  it("follows daylight saving time", () => {
+    // Noon UTC is 8 AM in New York in summer and 7 AM in winter
+    expect(
+      getZonedDayAndHour(Date.UTC(2024, 6, 1, 12) / 1000, "America/New_York")
+        .hour
+    ).toBe(8);
+    expect(
+      getZonedDayAndHour(Date.UTC(2024, 0, 1, 12) / 1000, "America/New_York")
+        .hour
+    ).toBe(7);
+  });
+});
+
+describe("timezone names", () => {
+  it("validates IANA timezones", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+
+  it("lists UTC first", () => {
+    const zones = getSupportedTimeZones();
+    expect(zones[0]).toBe("UTC");
+    expect(zones.filter((zone) => zone === "UTC")).toHaveLength(1);
+  });
+});
+
+describe("day key calendar", () => {
+  it("gets weekdays, ISO weeks and months", () => {
+    expect(getDayKeyWeekday("2023-11-14")).toBe(2);
+    expect(getIsoWeekKey("2023-11-14")).toBe("2023-W46");
+    // Early January can belong to the last ISO week of the year before
+    expect(getIsoWeekKey("2021-01-03")).toBe("2020-W53");
+    expect(getIsoWeekKey("2024-12-30")).toBe("2025-W01");
+    expect(getMonthKey("2023-11-14")).toBe("2023-11");
+  });
+
+  it("counts days across months, years and leap days", () => {
+    expect(addDaysToDayKey("2023-12-30", 3)).toBe("2024-01-02");
+    expect(addDaysToDayKey("2024-03-01", -1)).toBe("2024-02-29");
+    expect(getDaysBetween("2023-12-30", "2024-01-02")).toBe(3);
+    expect(getDaysBetween("2024-04-01", "2024-03-01")).toBe(-31);
+  });
+});
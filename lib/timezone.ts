@@ -0,0 +1,190 @@
+/**
+ * @file timezone.ts
+ *
+ * Timezone handling for bucketing usage by day and hour. Timestamps are turned
+ * into `YYYY-MM-DD` day keys and hours in an explicit IANA timezone (or the
+ * browser's own), and everything downstream works on those day keys with
+ * calendar arithmetic that doesn't depend on the browser's timezone.
+ */
+
+/** The UTC timezone identifier */
+export const UTC_TIME_ZONE = "UTC";
+
+/**
+ * Get the browser's (or Node's) own IANA timezone, e.g. "Europe/Berlin".
+ */
+export function getLocalTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || UTC_TIME_ZONE;
+  } catch {
+    return UTC_TIME_ZONE;
+  }
+}
+
+/**
+ * Check whether a string is an IANA timezone the runtime knows about.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the IANA timezones the runtime supports, with UTC first.
+ */
+export function getSupportedTimeZones(): string[] {
+  const supportedValuesOf = (Intl as any).supportedValuesOf as
+    | ((key: string) => string[])
+    | undefined;
+  const zones = supportedValuesOf ? supportedValuesOf("timeZone") : [];
+  return [UTC_TIME_ZONE, ...zones.filter((zone) => zone !== UTC_TIME_ZONE)];
+}
+
+/**
+ * A point in time as seen in a particular timezone.
+ */
+export interface ZonedDayAndHour {
+  /** Calendar day in `YYYY-MM-DD` format */
+  dayKey: string;
+  /** Hour of the day, 0-23 */
+  hour: number;
+}
+
+// Every timezone offset in use is a multiple of 15 minutes, so day and hour
+// are constant within each 15-minute slot and can be cached per slot
+const SLOT_SECONDS = 15 * 60;
+const MAX_CACHED_SLOTS = 100000;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const slotCaches = new Map<string, Map<number, ZonedDayAndHour>>();
+
+/**
+ * Get the calendar day and hour of a Unix timestamp in the given timezone.
+ *
+ * @param unixTime Unix timestamp in seconds (or ms, if > 1e11)
+ * @param timeZone IANA timezone; defaults to the local timezone
+ */
+export function getZonedDayAndHour(
+  unixTime: number,
+  timeZone?: string
+): ZonedDayAndHour {
+  // If obviously in milliseconds, convert to seconds
+  if (unixTime > 1e11) {
+    unixTime = Math.floor(unixTime / 1000);
+  }
+
+  if (!timeZone) {
+    const date = new Date(unixTime * 1000);
+    return {
+      dayKey: formatDayKey(
+        date.getFullYear(),
+        date.getMonth() + 1,
+        date.getDate()
+      ),
+      hour: date.getHours(),
+    };
+  }
+
+  let cache = slotCaches.get(timeZone);
+  if (!cache || cache.size > MAX_CACHED_SLOTS) {
+    cache = new Map();
+    slotCaches.set(timeZone, cache);
+  }
+  const slot = Math.floor(unixTime / SLOT_SECONDS);
+  const cached = cache.get(slot);
+  if (cached) return cached;
+
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(slot * SLOT_SECONDS * 1000)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  const result = {
+    dayKey: formatDayKey(parts.year, parts.month, parts.day),
+    hour: parts.hour % 24,
+  };
+  cache.set(slot, result);
+  return result;
+}
+
+function formatDayKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+//
+// ─── CALENDAR ARITHMETIC ON DAY KEYS ────────────────────────────────────────────
+//
+// Day keys already are in the chosen timezone, so they are treated as plain
+// calendar dates (UTC midnight) from here on.
+//
+
+/**
+ * Parse a `YYYY-MM-DD` day key into a Date at UTC midnight of that day.
+ */
+export function parseDayKey(dayKey: string): Date {
+  const [year, month, day] = dayKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Get the day of week (0=Sun, 6=Sat) of a day key.
+ */
+export function getDayKeyWeekday(dayKey: string): number {
+  return parseDayKey(dayKey).getUTCDay();
+}
+
+/**
+ * Get the day key a number of days after (or, if negative, before) a day key.
+ */
+export function addDaysToDayKey(dayKey: string, days: number): string {
+  const date = parseDayKey(dayKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the number of days from one day key to another.
+ */
+export function getDaysBetween(fromDayKey: string, toDayKey: string): number {
+  return Math.round(
+    (parseDayKey(toDayKey).getTime() - parseDayKey(fromDayKey).getTime()) /
+      86400000
+  );
+}
+
+/**
+ * Get the ISO week of a day key in `YYYY-Www` format, e.g. "2023-W42".
+ */
+export function getIsoWeekKey(dayKey: string): string {
+  const date = parseDayKey(dayKey);
+  // Move to the Thursday of the same week; its year is the ISO week-year
+  date.setUTCDate(date.getUTCDate() + 4 - (date.getUTCDay() || 7));
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const weekNo = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${date.getUTCFullYear()}-W${String(weekNo).padStart(2, "0")}`;
+}
+
+/**
+ * Get the month of a day key in `YYYY-MM` format.
+ */
+export function getMonthKey(dayKey: string): string {
+  return dayKey.slice(0, 7);
+}
@@ -0,0 +1,145 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { openDatabase, requestToPromise, STORES } from "./indexedDB";
+import {
+  clearTokenCache,
+  disableTokenCachePersistence,
+  enableTokenCachePersistence,
+  encryptPersistedCounts,
+  getTokenCacheKey,
+  getTokenCacheStats,
+  lookupTokenCount,
+  storeTokenCount,
+} from "./tokenCache";
+
+const KEY = getTokenCacheKey("hello there", "o200k_base");
+
+function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/**
+ * Count the plain counts and the encrypted chunks in IndexedDB.
+ */
+async function countPersisted() {
+  const database = await openDatabase();
+  const transaction = database.transaction(
+    [STORES.tokenCounts, STORES.encryptedTokenCounts],
+    "readonly"
+  );
+  const [plain, encrypted] = await Promise.all([
+    requestToPromise(transaction.objectStore(STORES.tokenCounts).count()),
+    requestToPromise(
+      transaction.objectStore(STORES.encryptedTokenCounts).count()
+    ),
+  ]);
+  return { plain, encrypted };
+}
+
+beforeEach(async () => {
+  await clearTokenCache();
+  storeTokenCount(KEY, 2);
+});
+
+afterEach(() => {
+  disableTokenCachePersistence();
+});
+
+describe("getTokenCacheKey", () => {
+  it("tells texts and encodings apart", () => {
+    expect(getTokenCacheKey("hello there", "o200k_base")).toBe(KEY);
+    expect(getTokenCacheKey("hello there!", "o200k_base")).not.toBe(KEY);
+    expect(getTokenCacheKey("hello there", "cl100k_base")).not.toBe(KEY);
+  });
+});
+
+describe("persistence", () => {
+  it("saves the counts made before it was enabled", async () => {
+    await enableTokenCachePersistence();
+    expect(await countPersisted()).toEqual({ plain: 1, encrypted: 0 });
+  });
+
+  it("loads the counts of an earlier session", async () => {
+    const key = await generateKey();
+    await enableTokenCachePersistence(key);
+
+    vi.resetModules();
+    const nextSession = await import("./tokenCache");
+    await nextSession.enableTokenCachePersistence(key);
+    expect(nextSession.lookupTokenCount(KEY)).toBe(2);
+    nextSession.disableTokenCachePersistence();
+  });
+
+  it("fails to load encrypted counts with another key", async () => {
+    await enableTokenCachePersistence(await generateKey());
+    disableTokenCachePersistence();
+
+    await expect(
+      enableTokenCachePersistence(await generateKey())
+    ).rejects.toThrow("Could not decrypt");
+  });
+
+  it("deletes the plain counts when encrypting", async () => {
+    await enableTokenCachePersistence();
+    disableTokenCachePersistence();
+    await enableTokenCachePersistence(await generateKey());
+    expect(await countPersisted()).toEqual({ plain: 0, encrypted: 1 });
+  });
+
+  it("deletes the encrypted counts when no longer encrypting", async () => {
+    await enableTokenCachePersistence(await generateKey());
+    disableTokenCachePersistence();
+    await enableTokenCachePersistence();
+    expect(await countPersisted()).toEqual({ plain: 1, encrypted: 0 });
+    expect(lookupTokenCount(KEY)).toBe(2);
+  });
+
+  it("deletes encrypted counts left by an earlier session", async () => {
+    await enableTokenCachePersistence(await generateKey());
+
+    vi.resetModules();
+    const nextSession = await import("./tokenCache");
+    await nextSession.enableTokenCachePersistence();
+    expect(await countPersisted()).toEqual({ plain: 0, encrypted: 0 });
+    nextSession.disableTokenCachePersistence();
+  });
+});
+
+describe("encryptPersistedCounts", () => {
+  it("encrypts the counts saved while persistence was on", async () => {
+    await enableTokenCachePersistence();
+    disableTokenCachePersistence();
+
+    const key = await generateKey();
+    await encryptPersistedCounts(key);
+    expect(await countPersisted()).toEqual({ plain: 0, encrypted: 1 });
+
+    vi.resetModules();
+    const nextSession = await import("./tokenCache");
+    await nextSession.enableTokenCachePersistence(key);
+    expect(nextSession.lookupTokenCount(KEY)).toBe(2);
+    nextSession.disableTokenCachePersistence();
+  });
+
+  it("deletes the counts encrypted with an earlier key", async () => {
+    await enableTokenCachePersistence(await generateKey());
+    disableTokenCachePersistence();
+
+    const key = await generateKey();
+    await encryptPersistedCounts(key);
+    await expect(enableTokenCachePersistence(key)).resolves.toBeUndefined();
+  });
+
+  it("re-saves the counts encrypted while persistence is on", async () => {
+    await enableTokenCachePersistence();
+    await encryptPersistedCounts(await generateKey());
+    expect(getTokenCacheStats()).toMatchObject({
+      persistent: true,
+      encrypted: true,
+    });
+    expect(await countPersisted()).toEqual({ plain: 0, encrypted: 1 });
+  });
+});
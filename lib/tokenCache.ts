@@ -0,0 +1,346 @@
+/**
+ * @file tokenCache.ts
+ *
+ * Memoizes token counts by a hash of the text and its encoding. Exports repeat
+ * a lot of text (custom instructions in every conversation, recurring
+ * citations and pasted documents), so each distinct text only has to go
+ * through the tokenizer once. The cache can optionally be persisted to
+ * IndexedDB, so re-analysing an updated export only tokenizes new text.
+ * Persisted counts are stored one per key, or in encrypted chunks when the
+ * user protects this device's data with a passphrase (see `encryption.ts`).
+ */
+
+import { decryptText, EncryptedPayload, encryptText } from "./encryption";
+import {
+  isIndexedDBAvailable,
+  openDatabase,
+  requestToPromise,
+  STORES,
+  transactionDone,
+} from "./indexedDB";
+
+/** Number of counts kept in memory; the oldest are dropped beyond this */
+const MAX_CACHED_COUNTS = 1_000_000;
+/** Delay before newly counted texts are written to IndexedDB */
+const PERSIST_DELAY_MS = 2000;
+/** Counts per encrypted chunk */
+const ENCRYPTED_CHUNK_SIZE = 50_000;
+
+const cache = new Map<string, number>();
+let persistent = false;
+// Key persisted counts are encrypted with; null to store them as they are
+let encryptionKey: CryptoKey | null = null;
+// Counts waiting to be written to IndexedDB
+const pendingWrites = new Map<string, number>();
+let persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+let hits = 0;
+let misses = 0;
+let hitTokens = 0;
+
+/**
+ * Hit and miss counts of the cache since they were last reset.
+ */
+export interface TokenCacheStats {
+  /** Texts whose count came from the cache */
+  hits: number;
+  /** Texts that had to be tokenized */
+  misses: number;
+  /** Tokens counted from cached texts */
+  hitTokens: number;
+  /** Counts held in memory */
+  entries: number;
+  /** Whether counts are persisted to IndexedDB */
+  persistent: boolean;
+  /** Whether persisted counts are encrypted with a passphrase */
+  encrypted: boolean;
+}
+
+/**
+ * Hash a text into a cache key. The key combines the encoding, the text's
+ * length and a 53-bit hash (cyrb53), which makes collisions negligible even
+ * with millions of distinct texts.
+ *
+ * @param text     The text to hash
+ * @param encoding The encoding the text is counted with
+ */
+export function getTokenCacheKey(text: string, encoding: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return `${encoding}:${text.length}:${hash.toString(36)}`;
+}
+
+/**
+ * Look up the token count of a text, recording a hit or a miss.
+ * @param key Key from `getTokenCacheKey`
+ * @returns The cached count, or undefined if the text hasn't been counted yet
+ */
+export function lookupTokenCount(key: string): number | undefined {
+  const count = cache.get(key);
+  if (count === undefined) {
+    misses++;
+  } else {
+    hits++;
+    hitTokens += count;
+  }
+  return count;
+}
+
+/**
+ * Remember the token count of a text. Only exact counts should be stored,
+ * never estimates.
+ * @param key   Key from `getTokenCacheKey`
+ * @param count The text's token count
+ */
+export function storeTokenCount(key: string, count: number) {
+  if (cache.size >= MAX_CACHED_COUNTS && !cache.has(key)) {
+    // Maps iterate in insertion order, so this drops the oldest count
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, count);
+
+  if (persistent) {
+    pendingWrites.set(key, count);
+    if (persistTimer === undefined) {
+      persistTimer = setTimeout(flushPendingWrites, PERSIST_DELAY_MS);
+    }
+  }
+}
+
+/**
+ * Load a persisted count into memory, unless the text was counted again this
+ * session or the cache is full. Persisted counts are older than the ones in
+ * memory, so past `MAX_CACHED_COUNTS` they are the ones left out.
+ * @returns Whether the count was loaded
+ */
+function loadPersistedCount(key: string, count: number): boolean {
+  if (cache.has(key) || cache.size >= MAX_CACHED_COUNTS) return false;
+  cache.set(key, count);
+  return true;
+}
+
+/**
+ * Get the cache's hit rate and size.
+ */
+export function getTokenCacheStats(): TokenCacheStats {
+  return {
+    hits,
+    misses,
+    hitTokens,
+    entries: cache.size,
+    persistent,
+    encrypted: persistent && encryptionKey !== null,
+  };
+}
+
+/**
+ * Reset the hit and miss counts, e.g. before analysing another file.
+ */
+export function resetTokenCacheStats() {
+  hits = 0;
+  misses = 0;
+  hitTokens = 0;
+}
+
+/**
+ * Start persisting counts to IndexedDB, loading the counts saved in earlier
+ * sessions into memory. Counts stored in the other form (plain when `key` is
+ * given, encrypted when it isn't) are deleted and every count is re-saved,
+ * so switching between plain and encrypted storage leaves nothing behind.
+ *
+ * @param key Key from `encryption.ts` to encrypt the counts with, if the
+ *            user protected this device's data with a passphrase
+ * @throws Error if IndexedDB is unavailable, or `key` can't decrypt the
+ *   encrypted counts
+ */
+export async function enableTokenCachePersistence(
+  key?: CryptoKey
+): Promise<void> {
+  const nextKey = key ?? null;
+  if (persistent && encryptionKey === nextKey) return;
+  const database = await openDatabase();
+
+  const store = database
+    .transaction(STORES.tokenCounts, "readonly")
+    .objectStore(STORES.tokenCounts);
+  const [keys, counts] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll()),
+  ]);
+  let loaded = 0;
+  keys.forEach((key, i) => {
+    if (loadPersistedCount(key as string, counts[i])) loaded++;
+  });
+  const encryptedStore = database
+    .transaction(STORES.encryptedTokenCounts, "readonly")
+    .objectStore(STORES.encryptedTokenCounts);
+  // Without a key, encrypted counts can't be loaded, only found and deleted
+  let hasEncryptedCounts = false;
+  if (nextKey) {
+    const chunks: EncryptedPayload[] = await requestToPromise(
+      encryptedStore.getAll()
+    );
+    for (const chunk of chunks) {
+      const entries: [string, number][] = JSON.parse(
+        await decryptText(nextKey, chunk)
+      );
+      entries.forEach(([key, count]) => {
+        if (loadPersistedCount(key, count)) loaded++;
+      });
+    }
+  } else {
+    hasEncryptedCounts = (await requestToPromise(encryptedStore.count())) > 0;
+  }
+
+  persistent = true;
+  encryptionKey = nextKey;
+  pendingWrites.clear();
+  // Decided from what is stored rather than from the previous call, which
+  // may have been made in another session or before persistence was disabled
+  if (nextKey || hasEncryptedCounts) {
+    // Start over in the new form, so nothing is left behind in the other one.
+    // Encrypted counts are also compacted into as few chunks as possible.
+    await clearPersistedCounts();
+    cache.forEach((count, key) => pendingWrites.set(key, count));
+  } else {
+    // Counts made before persistence was enabled are saved too
+    cache.forEach((count, key) => pendingWrites.set(key, count));
+    keys.forEach((key) => pendingWrites.delete(key as string));
+  }
+  await flushPendingWrites();
+  console.log(`Token cache: loaded ${loaded} persisted counts.`);
+}
+
+/**
+ * Encrypt the counts persisted so far with a new passphrase key, whether or
+ * not persistence is on, so no plain counts are left behind once the user
+ * sets a passphrase. Encrypted counts left by an earlier passphrase can't be
+ * read with the new key and are deleted.
+ *
+ * @param key Key from `encryption.ts` to encrypt the counts with
+ * @throws Error if IndexedDB is unavailable
+ */
+export async function encryptPersistedCounts(key: CryptoKey): Promise<void> {
+  if (persistent) return enableTokenCachePersistence(key);
+
+  const database = await openDatabase();
+  const store = database
+    .transaction(STORES.tokenCounts, "readonly")
+    .objectStore(STORES.tokenCounts);
+  const [keys, counts] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll()),
+  ]);
+  const chunks = await encryptCounts(
+    key,
+    keys.map((key, i): [string, number] => [key as string, counts[i]])
+  );
+
+  const transaction = database.transaction(
+    [STORES.tokenCounts, STORES.encryptedTokenCounts],
+    "readwrite"
+  );
+  transaction.objectStore(STORES.tokenCounts).clear();
+  const encryptedStore = transaction.objectStore(STORES.encryptedTokenCounts);
+  encryptedStore.clear();
+  chunks.forEach((chunk) => encryptedStore.put(chunk, crypto.randomUUID()));
+  await transactionDone(transaction);
+}
+
+/**
+ * Stop persisting counts. Counts already saved stay in IndexedDB until the
+ * cache is cleared.
+ */
+export function disableTokenCachePersistence() {
+  persistent = false;
+  encryptionKey = null;
+  clearTimeout(persistTimer);
+  persistTimer = undefined;
+  pendingWrites.clear();
+}
+
+/**
+ * Forget every cached count, in memory and in IndexedDB.
+ */
+export async function clearTokenCache(): Promise<void> {
+  cache.clear();
+  pendingWrites.clear();
+  resetTokenCacheStats();
+  if (!isIndexedDBAvailable()) return;
+  await clearPersistedCounts();
+}
+
+/**
+ * Delete every count from IndexedDB, plain or encrypted.
+ */
+async function clearPersistedCounts(): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(
+    [STORES.tokenCounts, STORES.encryptedTokenCounts],
+    "readwrite"
+  );
+  transaction.objectStore(STORES.tokenCounts).clear();
+  transaction.objectStore(STORES.encryptedTokenCounts).clear();
+  await transactionDone(transaction);
+}
+
+/**
+ * Encrypt counts in chunks of `ENCRYPTED_CHUNK_SIZE`. This is done before
+ * opening the transaction they are stored in, which would otherwise commit
+ * while waiting for WebCrypto.
+ */
+async function encryptCounts(
+  key: CryptoKey,
+  entries: [string, number][]
+): Promise<EncryptedPayload[]> {
+  const chunks: EncryptedPayload[] = [];
+  for (let i = 0; i < entries.length; i += ENCRYPTED_CHUNK_SIZE) {
+    const chunk = entries.slice(i, i + ENCRYPTED_CHUNK_SIZE);
+    chunks.push(await encryptText(key, JSON.stringify(chunk)));
+  }
+  return chunks;
+}
+
+/**
+ * Write the counts made since the last flush to IndexedDB.
+ */
+async function flushPendingWrites(): Promise<void> {
+  clearTimeout(persistTimer);
+  persistTimer = undefined;
+  if (!persistent || pendingWrites.size === 0) return;
+
+  const writes = Array.from(pendingWrites.entries());
+  pendingWrites.clear();
+  try {
+    const database = await openDatabase();
+    if (encryptionKey) {
+      const chunks = await encryptCounts(encryptionKey, writes);
+      const transaction = database.transaction(
+        STORES.encryptedTokenCounts,
+        "readwrite"
+      );
+      const store = transaction.objectStore(STORES.encryptedTokenCounts);
+      chunks.forEach((chunk) => store.put(chunk, crypto.randomUUID()));
+      await transactionDone(transaction);
+    } else {
+      const transaction = database.transaction(STORES.tokenCounts, "readwrite");
+      const store = transaction.objectStore(STORES.tokenCounts);
+      for (const [key, count] of writes) {
+        store.put(count, key);
+      }
+      await transactionDone(transaction);
+    }
+  } catch (error) {
+    console.warn("Token cache: could not persist counts:", error);
+  }
+}
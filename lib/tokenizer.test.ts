@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { countTextsInProcess, isSupportedEncoding } from "./tokenizer";
+
+describe("countTextsInProcess", () => {
+  it("counts with either encoding", () => {
+    expect(countTextsInProcess(["hello world", ""], "o200k_base")).toEqual([
+      2, 0,
+    ]);
+    expect(countTextsInProcess(["hello world"], "cl100k_base")).toEqual([2]);
+  });
+
+  it("leaves special tokens in the text out", () => {
+    const [count] = countTextsInProcess(["a <|endoftext|> b"], "o200k_base");
+    expect(count).toBe(countTextsInProcess(["a  b"], "o200k_base")[0]);
+  });
+});
+
+describe("isSupportedEncoding", () => {
+  it("accepts only the bundled encodings", () => {
+    expect(isSupportedEncoding("o200k_base")).toBe(true);
+    expect(isSupportedEncoding("cl100k_base")).toBe(true);
+    expect(isSupportedEncoding("p50k_base")).toBe(false);
+    expect(isSupportedEncoding(undefined)).toBe(false);
+  });
+});
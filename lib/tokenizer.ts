@@ -0,0 +1,85 @@
+/**
+ * @file tokenizer.ts
+ *
+ * js-tiktoken encoders for the supported encodings, shared by the tokenizer
+ * worker and by environments that count tokens in-process (the CLI in
+ * `scripts/analyze.ts`).
+ */
+
+import { Tiktoken, TiktokenBPE } from "js-tiktoken/lite";
+// Import the specific rank data needed
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import type { TokenizerEncoding } from "./calculator";
+
+// Rank data of each supported encoding
+const RANKS: Record<TokenizerEncoding, TiktokenBPE> = {
+  o200k_base,
+  cl100k_base,
+};
+
+// Encoders by encoding, created on first use; null if creation failed
+const encoders = new Map<TokenizerEncoding, Tiktoken | null>();
+
+/**
+ * Check whether a value names a supported encoding.
+ */
+export function isSupportedEncoding(
+  encoding: unknown
+): encoding is TokenizerEncoding {
+  return typeof encoding === "string" && encoding in RANKS;
+}
+
+/**
+ * Get the encoder for an encoding, creating it on first use.
+ * @returns The encoder, or null if it failed to initialize
+ */
+export function getEncoder(encoding: TokenizerEncoding): Tiktoken | null {
+  if (!encoders.has(encoding)) {
+    try {
+      console.log(`Tokenizer: Initializing Tiktoken with ${encoding} ranks...`);
+      // Instantiate directly with the imported rank data
+      encoders.set(encoding, new Tiktoken(RANKS[encoding]));
+      console.log(`Tokenizer: ${encoding} encoder initialized.`);
+    } catch (e) {
+      console.error(
+        `Tokenizer: Failed to initialize Tiktoken with ${encoding}:`,
+        e
+      );
+      encoders.set(encoding, null);
+    }
+  }
+  return encoders.get(encoding) ?? null;
+}
+
+/**
+ * Count the tokens of a single text.
+ * @throws Error if the encoder is unavailable or fails on the text
+ */
+export function countTokens(text: string, enc: Tiktoken | null): number {
+  if (!text) return 0;
+  if (!enc) throw new Error("Encoder failed to initialize");
+
+  // Clean the text to remove disallowed special tokens before encoding
+  let cleanedText = text.replace(/<\|endoftext\|>/g, "");
+  cleanedText = cleanedText.replace(/<\|im_start\|>/g, "");
+  cleanedText = cleanedText.replace(/<\|im_end\|>/g, "");
+
+  // js-tiktoken doesn't seem to require the <|endoftext|> hack
+  // and doesn't support the allowed_special option in the same way.
+  // Encode the cleaned text
+  return enc.encode(cleanedText).length;
+}
+
+/**
+ * Count the tokens of a batch of texts in the current thread, for use with
+ * `setTokenCounter` where Web Workers aren't available.
+ * @throws Error if the encoder is unavailable or fails on a text
+ */
+export function countTextsInProcess(
+  texts: string[],
+  encoding: TokenizerEncoding
+): number[] {
+  const enc = getEncoder(encoding);
+  return texts.map((text) => countTokens(text, enc));
+}
@@ -1,35 +1,53 @@
 // lib/tokenizer.worker.ts
-import { Tiktoken } from "js-tiktoken/lite";
-// Import the specific rank data needed
-import o200k_base from "js-tiktoken/ranks/o200k_base";
-// If you need cl100k_base as a fallback, import it too:
-// import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import { countTokens, getEncoder, isSupportedEncoding } from "./tokenizer";
+import type { TokenizerEncoding } from "./calculator";
 
-let enc: Tiktoken | null = null;
-let encoderName: string | null = null;
+// Encoding for requests that don't name one
+const DEFAULT_ENCODING: TokenizerEncoding = "o200k_base";
 
-try {
-  console.log("Worker: Initializing Tiktoken with o200k_base ranks...");
-  // Instantiate directly with the imported rank data
-  enc = new Tiktoken(o200k_base);
-  encoderName = "o200k_base";
-  console.log("Worker: o200k_base encoder initialized.");
-} catch (e) {
-  console.error("Worker: Failed to initialize Tiktoken with o200k_base:", e);
-  // Attempt fallback if needed and imported
-  // try {
-  //   console.log("Worker: Falling back to cl100k_base ranks...");
-  //   enc = new Tiktoken(cl100k_base);
-  //   encoderName = "cl100k_base";
-  //   console.log("Worker: cl100k_base encoder initialized.");
-  // } catch (fallbackErr) {
-  //   console.error("Worker: Failed to initialize Tiktoken with cl100k_base:", fallbackErr);
-  // }
-}
+// The default encoder is needed for almost every export, so load it up front
+getEncoder(DEFAULT_ENCODING);
 
 self.onmessage = async (event: MessageEvent) => {
   // No longer need INIT message type
-  const { id, text } = event.data;
+  const { id, text, texts } = event.data;
+  const encoding: TokenizerEncoding = isSupportedEncoding(event.data.encoding)
+    ? event.data.encoding
+    : DEFAULT_ENCODING;
+  const enc = getEncoder(encoding);
+
+  // Batch of texts: { id, texts, encoding? } -> { id, counts, estimated }
+  if (id !== undefined && Array.isArray(texts)) {
+    if (!enc) {
+      console.error(
+        `Worker: ${encoding} encoder not available for tokenization.`
+      );
+    }
+    const counts: number[] = [];
+    // Whether each count is a fallback estimate
+    const estimated: boolean[] = [];
+    let error: string | undefined;
+    for (const batchText of texts) {
+      const value = typeof batchText === "string" ? batchText : "";
+      try {
+        counts.push(countTokens(value, enc));
+        estimated.push(false);
+      } catch (e: any) {
+        if (enc) {
+          console.error("Worker: Error during tokenization for id:", id, e);
+        }
+        error = `Tokenization failed: ${e?.message || e}`;
+        counts.push(Math.ceil(value.length / 4));
+        estimated.push(true);
+      }
+    }
+    self.postMessage(
+      error
+        ? { id, counts, estimated, error, fallbackUsed: true }
+        : { id, counts, estimated }
+    );
+    return;
+  }
 
   if (id === undefined || typeof text !== "string") {
     console.warn("Worker: Received unknown message format", event.data);
@@ -37,7 +55,9 @@ self.onmessage = async (event: MessageEvent) => {
   }
 
   if (!enc) {
-    console.error("Worker: Encoder not available for tokenization.");
+    console.error(
+      `Worker: ${encoding} encoder not available for tokenization.`
+    );
     const fallbackCount = Math.ceil(text.length / 4);
     self.postMessage({
       id,
@@ -48,23 +68,8 @@ self.onmessage = async (event: MessageEvent) => {
     return;
   }
 
-  if (!text) {
-    self.postMessage({ id, count: 0 });
-    return;
-  }
-
   try {
-    // Clean the text to remove disallowed special tokens before encoding
-    let cleanedText = text.replace(/<\|endoftext\|>/g, "");
-    cleanedText = cleanedText.replace(/<\|im_start\|>/g, "");
-    cleanedText = cleanedText.replace(/<\|im_end\|>/g, "");
-
-    // js-tiktoken doesn't seem to require the <|endoftext|> hack
-    // and doesn't support the allowed_special option in the same way.
-    // Encode the cleaned text
-    const tokens = enc.encode(cleanedText);
-    const count = tokens.length;
-    self.postMessage({ id, count });
+    self.postMessage({ id, count: countTokens(text, enc) });
   } catch (error: any) {
     console.error("Worker: Error during tokenization for id:", id, error);
     const fallbackCount = Math.ceil(text.length / 4);
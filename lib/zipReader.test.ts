@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "../test/zip";
+import { isZipFile, readZipEntries } from "./zipReader";
+
+describe("isZipFile", () => {
+  it("recognises archives by name or MIME type", () => {
+    expect(isZipFile(new File([], "Export.ZIP"))).toBe(true);
+    expect(isZipFile(new File([], "export", { type: "application/zip" }))).toBe(
+      true
+    );
+    expect(isZipFile(new File([], "conversations.json"))).toBe(false);
+  });
+});
+
+describe("readZipEntries", () => {
+  it("reads stored and deflated entries and skips directories", async () => {
+    const archive = new Blob([
+      createZip([
+        { name: "export/", contents: "" },
+        { name: "export/user.json", contents: '{"id":"user-1"}' },
+        {
+          name: "export/conversations.json",
+          contents: "[]".padEnd(5000, " "),
+          deflate: true,
+        },
+      ]),
+    ]);
+
+    const entries = await readZipEntries(archive);
+    expect(entries.map((entry) => entry.name)).toEqual([
+      "export/user.json",
+      "export/conversations.json",
+    ]);
+    expect(await entries[0].text()).toBe('{"id":"user-1"}');
+    expect(entries[1].size).toBe(5000);
+    expect(entries[1].compressedSize).toBeLessThan(5000);
+    expect((await entries[1].text()).trim()).toBe("[]");
+  });
+
+  it("rejects files that aren't archives", async () => {
+    await expect(
+      readZipEntries(new Blob(["not an archive at all, just some text"]))
+    ).rejects.toThrow("valid ZIP archive");
+  });
+});
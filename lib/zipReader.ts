@@ -0,0 +1,254 @@
+/**
+ * @file zipReader.ts
+ *
+ * Minimal in-browser reader for ZIP archives (such as the ChatGPT data export).
+ * Only the central directory is read up front; entry contents are streamed on
+ * demand and inflated with the native `DecompressionStream`, so large archives
+ * never need to be loaded into memory in one piece.
+ */
+
+// Record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Compression methods
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// The end of central directory record is 22 bytes plus up to 64KB of comment
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+/**
+ * A single file inside a ZIP archive.
+ */
+export interface ZipEntry {
+  /** Full path of the entry inside the archive */
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  /** Compressed size in bytes */
+  compressedSize: number;
+  /** Stream the uncompressed contents */
+  stream(): ReadableStream<Uint8Array>;
+  /** Read the uncompressed contents into a Blob */
+  blob(): Promise<Blob>;
+  /** Read the uncompressed contents as UTF-8 text */
+  text(): Promise<string>;
+}
+
+/**
+ * Check whether a file looks like a ZIP archive by its name or MIME type.
+ */
+export function isZipFile(file: File): boolean {
+  return (
+    file.name.toLowerCase().endsWith(".zip") ||
+    file.type === "application/zip" ||
+    file.type === "application/x-zip-compressed"
+  );
+}
+
+/**
+ * Read the central directory of a ZIP archive and return its file entries.
+ * Directory entries are omitted.
+ * @param file The archive to read
+ * @returns Promise resolving to the entries in central directory order
+ * @throws Error if the file is not a valid ZIP archive
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const { entryCount, directoryOffset, directorySize } =
+    await readEndOfCentralDirectory(file);
+
+  const directory = new DataView(
+    await file
+      .slice(directoryOffset, directoryOffset + directorySize)
+      .arrayBuffer()
+  );
+  const decoder = new TextDecoder("utf-8");
+  const entries: ZipEntry[] = [];
+
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > directory.byteLength ||
+      directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new Error("Corrupt ZIP archive: invalid central directory.");
+    }
+
+    const method = directory.getUint16(offset + 10, true);
+    let compressedSize = directory.getUint32(offset + 20, true);
+    let size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    let localHeaderOffset = directory.getUint32(offset + 42, true);
+
+    const nameStart = offset + 46;
+    const name = decoder.decode(
+      new Uint8Array(
+        directory.buffer,
+        directory.byteOffset + nameStart,
+        nameLength
+      )
+    );
+
+    // ZIP64 extended information replaces any field saturated at 0xFFFFFFFF
+    const extraStart = nameStart + nameLength;
+    const extraEnd = extraStart + extraLength;
+    for (let p = extraStart; p + 4 <= extraEnd; ) {
+      const headerId = directory.getUint16(p, true);
+      const dataSize = directory.getUint16(p + 2, true);
+      if (headerId === 0x0001) {
+        let field = p + 4;
+        if (size === 0xffffffff) {
+          size = readUint64(directory, field);
+          field += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(directory, field);
+          field += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(directory, field);
+        }
+      }
+      p += 4 + dataSize;
+    }
+
+    offset = extraEnd + commentLength;
+
+    if (name.endsWith("/")) continue; // Directory entry
+
+    entries.push(
+      createEntry(file, name, method, size, compressedSize, localHeaderOffset)
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * Locate and parse the (ZIP64) end of central directory record.
+ */
+async function readEndOfCentralDirectory(file: Blob): Promise<{
+  entryCount: number;
+  directoryOffset: number;
+  directorySize: number;
+}> {
+  const tailStart = Math.max(0, file.size - MAX_EOCD_SEARCH);
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+
+  // Scan backwards for the signature, since the archive comment comes after it
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("This doesn't appear to be a valid ZIP archive.");
+  }
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  const locator = eocd - 20;
+  if (
+    locator >= 0 &&
+    tail.getUint32(locator, true) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR
+  ) {
+    const zip64Offset = readUint64(tail, locator + 8);
+    const zip64 = new DataView(
+      await file.slice(zip64Offset, zip64Offset + 56).arrayBuffer()
+    );
+    if (zip64.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error("Corrupt ZIP archive: invalid ZIP64 directory record.");
+    }
+    entryCount = readUint64(zip64, 32);
+    directorySize = readUint64(zip64, 40);
+    directoryOffset = readUint64(zip64, 48);
+  }
+
+  return { entryCount, directoryOffset, directorySize };
+}
+
+/**
+ * Build a lazily-read entry. The local file header is only read when the
+ * entry's contents are requested, since its variable-length fields determine
+ * where the compressed data starts.
+ */
+function createEntry(
+  file: Blob,
+  name: string,
+  method: number,
+  size: number,
+  compressedSize: number,
+  localHeaderOffset: number
+): ZipEntry {
+  async function openDataStream(): Promise<ReadableStream<Uint8Array>> {
+    const header = new DataView(
+      await file.slice(localHeaderOffset, localHeaderOffset + 30).arrayBuffer()
+    );
+    if (
+      header.byteLength < 30 ||
+      header.getUint32(0, true) !== LOCAL_FILE_HEADER
+    ) {
+      throw new Error(`Corrupt ZIP archive: invalid local header for ${name}.`);
+    }
+    const dataStart =
+      localHeaderOffset +
+      30 +
+      header.getUint16(26, true) +
+      header.getUint16(28, true);
+    const raw = file.slice(dataStart, dataStart + compressedSize).stream();
+
+    if (method === METHOD_STORED) {
+      return raw;
+    }
+    if (method === METHOD_DEFLATED) {
+      return raw.pipeThrough(new DecompressionStream("deflate-raw"));
+    }
+    throw new Error(
+      `Unsupported ZIP compression method ${method} for ${name}.`
+    );
+  }
+
+  const entry: ZipEntry = {
+    name,
+    size,
+    compressedSize,
+    stream() {
+      // Expose a synchronous stream that is fed once the header has been read
+      const { readable, writable } = new TransformStream<
+        Uint8Array,
+        Uint8Array
+      >();
+      openDataStream()
+        .then((data) => data.pipeTo(writable))
+        .catch((err) => writable.abort(err).catch(() => {}));
+      return readable;
+    },
+    blob() {
+      return new Response(entry.stream()).blob();
+    },
+    text() {
+      return new Response(entry.stream()).text();
+    },
+  };
+  return entry;
+}
+
+/**
+ * Read a little-endian unsigned 64-bit integer. Values above 2^53 lose
+ * precision, which is far beyond any archive a browser can open.
+ */
+function readUint64(view: DataView, offset: number): number {
+  return (
+    view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32
+  );
+}
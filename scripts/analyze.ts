@@ -0,0 +1,210 @@
+/**
+ * @file analyze.ts
+ *
+ * Command-line entry point running the same analysis as the app, for scripts
+ * and scheduled jobs. Tokens are counted in-process with js-tiktoken, so the
+ * counts match the browser's.
+ *
+ * Usage: pnpm analyze <conversations.json | export.zip>... [options]
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  Aggregator,
+  BranchMode,
+  BucketWithHours,
+  filterAggregatorByDate,
+  setTokenCounter,
+} from "../lib/calculator";
+import { analyzeExportFiles } from "../lib/pipeline";
+import { createSnapshot } from "../lib/snapshot";
+import { getLocalTimeZone, isValidTimeZone } from "../lib/timezone";
+import { countTextsInProcess } from "../lib/tokenizer";
+
+const USAGE = `Usage: pnpm analyze <conversations.json | export.zip>... [options]
+
+Several exports are merged, counting conversations found in more than one once.
+
+Options:
+  --from <YYYY-MM-DD>    First day to include
+  --to <YYYY-MM-DD>      Last day to include
+  --timezone <zone>      IANA timezone to bucket days in (default: local)
+  --branches <mode>      "all" or "active" branches (default: all)
+  --format <format>      "json" (a snapshot) or "csv" (default: json)
+  --output <path>        File to write to (default: stdout)
+  --verbose              Log the analysis' progress messages to stderr
+  --help                 Show this message`;
+
+type OutputFormat = "json" | "csv";
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CSV_COLUMNS = [
+  "date",
+  "model",
+  "input_tokens",
+  "output_tokens",
+  "cost",
+  "message_count",
+  "conversation_count",
+];
+
+/**
+ * Parse and validate the command line.
+ * @throws Error describing the first invalid argument
+ */
+function parseOptions(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      timezone: { type: "string" },
+      branches: { type: "string", default: "all" },
+      format: { type: "string", default: "json" },
+      output: { type: "string" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length === 0) {
+    throw new Error("Expected at least one export file.");
+  }
+  for (const day of [values.from, values.to]) {
+    if (day !== undefined && !DAY_KEY_PATTERN.test(day)) {
+      throw new Error(`Invalid date "${day}", expected YYYY-MM-DD.`);
+    }
+  }
+  if (values.from && values.to && values.from > values.to) {
+    throw new Error("--from must not be after --to.");
+  }
+  if (values.timezone !== undefined && !isValidTimeZone(values.timezone)) {
+    throw new Error(`Unknown timezone "${values.timezone}".`);
+  }
+  if (values.branches !== "all" && values.branches !== "active") {
+    throw new Error(`Invalid branch mode "${values.branches}".`);
+  }
+  if (values.format !== "json" && values.format !== "csv") {
+    throw new Error(`Invalid format "${values.format}".`);
+  }
+
+  return {
+    paths: positionals,
+    fromDay: values.from,
+    toDay: values.to,
+    timeZone: values.timezone ?? getLocalTimeZone(),
+    branchMode: values.branches as BranchMode,
+    format: values.format as OutputFormat,
+    output: values.output,
+    verbose: values.verbose!,
+  };
+}
+
+/**
+ * Quote a CSV field if it contains a separator, quote or line break.
+ */
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize an aggregate as CSV: one row per day and model, plus a row per
+ * day with the model "total".
+ */
+function toCsv(aggregator: Aggregator): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  const addRow = (dayKey: string, model: string, bucket: BucketWithHours) =>
+    rows.push(
+      [
+        dayKey,
+        model,
+        bucket.input_tokens,
+        bucket.output_tokens,
+        bucket.cost.toFixed(6),
+        bucket.message_count,
+        bucket.conversation_count,
+      ]
+        .map(escapeCsvField)
+        .join(",")
+    );
+
+  for (const dayKey of Object.keys(aggregator.usageByDay).sort()) {
+    const dayBucket = aggregator.usageByDay[dayKey];
+    for (const model of Object.keys(dayBucket.models).sort()) {
+      addRow(dayKey, model, dayBucket.models[model]);
+    }
+    addRow(dayKey, "total", dayBucket.total);
+  }
+  return rows.join("\n") + "\n";
+}
+
+async function main() {
+  let options: ReturnType<typeof parseOptions>;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(`Error: ${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  // The library logs its progress with console.log, which would end up in
+  // the output when writing to stdout
+  const log = console.log;
+  console.log = options.verbose ? console.error : () => {};
+
+  setTokenCounter(countTextsInProcess);
+
+  const files: File[] = [];
+  for (const path of options.paths) {
+    files.push(new File([await readFile(path)], basename(path)));
+  }
+  const { aggregator, importerName } = await analyzeExportFiles(files, {
+    branchMode: options.branchMode,
+    timeZone: options.timeZone,
+  });
+
+  const result =
+    options.fromDay || options.toDay
+      ? filterAggregatorByDate(aggregator, options.fromDay, options.toDay)
+      : aggregator;
+  // JSON is written as a snapshot, which the app can open too
+  const serialized =
+    options.format === "csv"
+      ? toCsv(result)
+      : JSON.stringify(
+          createSnapshot(result, {
+            sourceFileName: files.map((file) => file.name).join(", "),
+            importerName,
+          }),
+          null,
+          2
+        ) + "\n";
+
+  if (options.output) {
+    await writeFile(options.output, serialized);
+    console.error(
+      `Wrote ${
+        result.conversations?.length ?? 0
+      } ${importerName} conversation(s) to ${options.output}.`
+    );
+  } else {
+    process.stdout.write(serialized);
+  }
+  console.log = log;
+}
+
+main().catch((error) => {
+  console.error(`Error: ${error?.message || error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,75 @@
+/** One prompt and its response in a test conversation */
+export interface FixtureTurn {
+  prompt: string;
+  response: string;
+  model?: string;
+  /** When the prompt was sent, in Unix seconds; the response follows 10s later */
+  time: number;
+}
+
+/**
+ * Build a conversation in the ChatGPT export format, as a linear chain of
+ * turns under a root node.
+ */
+export function chatGPTConversation(
+  id: string,
+  turns: FixtureTurn[],
+  updateTime?: number
+): any {
+  const mapping: Record<string, any> = {
+    root: { id: "root", message: null, parent: null, children: [] },
+  };
+  let parent = "root";
+  turns.forEach((turn, index) => {
+    const userId = `${id}-u${index}`;
+    const assistantId = `${id}-a${index}`;
+    mapping[parent].children.push(userId);
+    mapping[userId] = {
+      id: userId,
+      parent,
+      children: [assistantId],
+      message: {
+        id: userId,
+        create_time: turn.time,
+        author: { role: "user" },
+        content: { content_type: "text", parts: [turn.prompt] },
+      },
+    };
+    mapping[assistantId] = {
+      id: assistantId,
+      parent: userId,
+      children: [],
+      message: {
+        id: assistantId,
+        create_time: turn.time + 10,
+        author: { role: "assistant" },
+        end_turn: true,
+        metadata: { model_slug: turn.model ?? "gpt-4o" },
+        content: { content_type: "text", parts: [turn.response] },
+      },
+    };
+    parent = assistantId;
+  });
+
+  return {
+    id,
+    title: `Conversation ${id}`,
+    create_time: turns[0]?.time ?? 1700000000,
+    update_time:
+      updateTime ?? (turns[turns.length - 1]?.time ?? 1700000000) + 10,
+    current_node: parent,
+    mapping,
+  };
+}
+
+/**
+ * Wrap conversations into an uploaded `conversations.json`.
+ */
+export function conversationsFile(
+  conversations: any[],
+  name = "conversations.json"
+): File {
+  return new File([JSON.stringify(conversations)], name, {
+    type: "application/json",
+  });
+}
@@ -0,0 +1,91 @@
+import { deflateRawSync } from "node:zlib";
+
+/** A file to put into a test archive */
+export interface ZipFixtureEntry {
+  name: string;
+  contents: string | Uint8Array;
+  /** Store the contents deflated rather than as-is */
+  deflate?: boolean;
+}
+
+/**
+ * CRC-32 of some bytes, as recorded in ZIP headers.
+ */
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a ZIP archive in memory, for testing the archive reader without
+ * checking binary files in.
+ */
+export function createZip(entries: ZipFixtureEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const directoryParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const contents =
+      typeof entry.contents === "string"
+        ? encoder.encode(entry.contents)
+        : entry.contents;
+    const data = entry.deflate
+      ? new Uint8Array(deflateRawSync(contents))
+      : contents;
+    const method = entry.deflate ? 8 : 0;
+    const crc = crc32(contents);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(8, method, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.byteLength, true);
+    local.setUint32(22, contents.byteLength, true);
+    local.setUint16(26, name.byteLength, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(10, method, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.byteLength, true);
+    central.setUint32(24, contents.byteLength, true);
+    central.setUint16(28, name.byteLength, true);
+    central.setUint32(42, offset, true);
+    directoryParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.byteLength + data.byteLength;
+  }
+
+  const directorySize = directoryParts.reduce(
+    (size, part) => size + part.byteLength,
+    0
+  );
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...directoryParts, new Uint8Array(end.buffer)];
+  const archive = new Uint8Array(offset + directorySize + 22);
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.byteLength;
+  }
+  return archive;
+}
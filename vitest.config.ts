@@ -0,0 +1,15 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    include: ["lib/**/*.test.ts", "scripts/**/*.test.ts"],
+    restoreMocks: true,
+    unstubGlobals: true,
+    // The pipeline logs its progress with console.log; keep warnings and errors
+    onConsoleLog: (_log, type) => type === "stderr",
+  },
+});